@@ -0,0 +1,262 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDictionary } from './build';
+import type { OpenAPISpec, Schema } from './types';
+
+const spec: OpenAPISpec = {
+  openapi: '3.1.0',
+  info: { title: 'Things', version: '1.0.0' },
+  paths: {
+    '/v1/things/{thingId}': {
+      parameters: [{ name: 'thingId', in: 'path', required: true, schema: { type: 'string' } }],
+      get: {
+        operationId: 'getThing',
+        parameters: [{ name: 'fields', in: 'query', schema: { type: 'array', items: { type: 'string' } } }],
+        responses: {
+          '200': {
+            description: 'OK',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Thing' } } }
+          }
+        }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      Thing: {
+        type: 'object',
+        required: ['thingId'],
+        properties: {
+          thingId: { type: 'string', maxLength: 10 },
+          tags: { type: 'array', items: { type: 'string' } },
+          owner: { type: 'object', properties: { ownerName: { type: 'string' } } }
+        }
+      }
+    }
+  }
+};
+
+describe('buildDictionary', () => {
+  test('flattens parameters and bodies into field instances', async () => {
+    const model = await buildDictionary(spec);
+    const rows = model.fieldInstances.map(field => `${field.location} ${field.fieldPath}`);
+
+    assert.deepEqual(rows, [
+      'path_param thingId',
+      'query_param fields',
+      'response_body owner',
+      'response_body owner.ownerName',
+      'response_body tags',
+      'response_body thingId'
+    ]);
+  });
+
+  test('records required flags, constraints and the source component', async () => {
+    const model = await buildDictionary(spec);
+    const thingId = model.fieldInstances.find(field => field.location === 'response_body' && field.fieldPath === 'thingId')!;
+
+    assert.equal(thingId.required, 'Yes');
+    assert.equal(thingId.constraints, 'maxLength=10');
+    assert.equal(thingId.schemaName, 'Thing');
+    assert.equal(thingId.sourceRef, '#/components/schemas/Thing/properties/thingId');
+  });
+
+  test('summarizes endpoints and component schemas', async () => {
+    const model = await buildDictionary(spec);
+
+    assert.deepEqual(model.endpoints.map(endpoint => `${endpoint.method} ${endpoint.path}`), ['GET /v1/things/{thingId}']);
+    assert.equal(model.endpoints[0].parameterCount, 2);
+    assert.deepEqual(model.schemas.map(schema => [schema.name, schema.propertyCount]), [['Thing', 3]]);
+  });
+
+  test('leaves a loaded document untouched', async () => {
+    const document = structuredClone(spec);
+    await buildDictionary(document);
+
+    assert.deepEqual(document, spec);
+  });
+
+  test('emits one set of rows per oneOf variant', async () => {
+    const model = await buildDictionary({
+      openapi: '3.1.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {
+        '/v1/pets': {
+          post: {
+            operationId: 'createPet',
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: {
+                    oneOf: [
+                      { title: 'Cat', type: 'object', properties: { kind: { const: 'cat' }, isIndoor: { type: 'boolean' } } },
+                      { title: 'Dog', type: 'object', properties: { kind: { const: 'dog' }, breed: { type: 'string' } } }
+                    ]
+                  }
+                }
+              }
+            },
+            responses: { '204': { description: 'Created' } }
+          }
+        }
+      }
+    });
+
+    const rows = model.fieldInstances.map(field => `${field.variant} ${field.fieldPath} ${field.discriminatorValue}`);
+    assert.deepEqual(rows, ['Dog breed kind=dog', 'Cat isIndoor kind=cat', 'Cat kind kind=cat', 'Dog kind kind=dog']);
+  });
+
+  test('marks the rows a required-only oneOf branch selects instead of repeating them', async () => {
+    const model = await buildDictionary({
+      openapi: '3.1.0',
+      info: { title: 'Withdrawals', version: '1.0.0' },
+      paths: {
+        '/v1/withdrawals': {
+          post: {
+            operationId: 'submitWithdrawal',
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { requestedAmount: { type: 'number' }, requestedPercentage: { type: 'number' } },
+                    oneOf: [
+                      { required: ['requestedAmount'], not: { required: ['requestedPercentage'] } },
+                      { required: ['requestedPercentage'], not: { required: ['requestedAmount'] } }
+                    ]
+                  }
+                }
+              }
+            },
+            responses: { '204': { description: 'Submitted' } }
+          }
+        }
+      }
+    });
+
+    const rows = model.fieldInstances.map(field => [field.fieldPath, field.variant, field.required, field.conditionallyRequired]);
+    assert.deepEqual(rows, [
+      ['requestedAmount', '', 'No', 'oneOf variant1 (requestedPercentage absent)'],
+      ['requestedPercentage', '', 'No', 'oneOf variant2 (requestedAmount absent)']
+    ]);
+  });
+});
+
+describe('root body constraints', () => {
+  async function requestRows(schema: Schema) {
+    const model = await buildDictionary({
+      openapi: '3.1.0',
+      info: { title: 'Withdrawals', version: '1.0.0' },
+      paths: {
+        '/v1/withdrawals': {
+          post: {
+            operationId: 'submitWithdrawal',
+            requestBody: { content: { 'application/json': { schema } } },
+            responses: { '204': { description: 'Submitted' } }
+          }
+        }
+      }
+    });
+    return model.fieldInstances;
+  }
+
+  test('get a row of their own at the empty field path', async () => {
+    const [root, ...properties] = await requestRows({
+      type: 'object',
+      minProperties: 1,
+      dependentRequired: { amount: ['currency'] },
+      properties: { amount: { type: 'number' }, currency: { type: 'string' } }
+    });
+
+    assert.equal(root.fieldPath, '');
+    assert.equal(root.constraints, 'minProperties=1; dependentRequired=amount -> [currency]');
+    assert.deepEqual(properties.map(field => field.fieldPath), ['amount', 'currency']);
+  });
+
+  test('include if/then/else folded from allOf', async () => {
+    const [root] = await requestRows({
+      type: 'object',
+      properties: { allocationOption: { type: 'string' }, funds: { type: 'array', items: { type: 'string' } } },
+      allOf: [{
+        if: { properties: { allocationOption: { const: 'SPECIFIEDFUNDS' } }, required: ['allocationOption'] },
+        then: { required: ['funds'] }
+      }]
+    });
+
+    assert.equal(root.fieldPath, '');
+    assert.deepEqual(root.constraintDetails.conditionals, [{
+      if: { properties: { allocationOption: { const: 'SPECIFIEDFUNDS' } }, required: ['allocationOption'] },
+      then: { required: ['funds'] }
+    }]);
+  });
+
+  test('add no row to a root without constraints', async () => {
+    const rows = await requestRows({ type: 'object', properties: { amount: { type: 'number' } } });
+    assert.deepEqual(rows.map(field => field.fieldPath), ['amount']);
+  });
+});
+
+const allocations = await buildDictionary({
+  openapi: '3.1.0',
+  info: { title: 'Allocations', version: '1.0.0' },
+  paths: {
+    '/v1/allocations': {
+      put: {
+        operationId: 'updateAllocations',
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  fundAllocations: {
+                    type: 'object',
+                    additionalProperties: {
+                      type: 'object',
+                      properties: { percentage: { type: 'number' } }
+                    }
+                  },
+                  labels: { type: 'object', patternProperties: { '^x-[a-z.]+$': { type: 'string' } } },
+                  notes: { type: 'object', properties: { text: { type: 'string' } } },
+                  owner: { type: 'object', additionalProperties: false, properties: { ownerName: { type: 'string' } } }
+                }
+              },
+              example: { fundAllocations: { FUND1: { percentage: 60 }, FUND2: { percentage: 40 } }, labels: { 'x-source.system': 'web' } }
+            }
+          }
+        },
+        responses: { '204': { description: 'Updated' } }
+      }
+    }
+  }
+});
+
+describe('map entries', () => {
+  const field = (fieldPath: string) => allocations.fieldInstances.find(row => row.fieldPath === fieldPath)!;
+
+  test('flatten value schemas under {key} and {pattern} segments', () => {
+    assert.deepEqual(allocations.fieldInstances.map(row => row.fieldPath).sort(), [
+      'fundAllocations',
+      'fundAllocations{key}.percentage',
+      'labels',
+      'labels{^x-[a-z.]+$}',
+      'notes',
+      'notes.text',
+      'owner',
+      'owner.ownerName'
+    ]);
+    assert.equal(field('fundAllocations').itemType, 'object');
+  });
+
+  test('flag objects as map, open or closed', () => {
+    assert.equal(field('fundAllocations').additionalProperties, 'map');
+    assert.equal(field('labels').additionalProperties, 'map');
+    assert.equal(field('notes').additionalProperties, 'open');
+    assert.equal(field('owner').additionalProperties, 'closed');
+  });
+
+  test('take examples from every entry of a map in a payload', () => {
+    assert.equal(field('fundAllocations{key}.percentage').example, '60');
+    assert.equal(field('labels{^x-[a-z.]+$}').example, 'web');
+  });
+});
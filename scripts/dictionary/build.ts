@@ -0,0 +1,176 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import type { OpenAPI } from 'openapi-types';
+import type {
+  BuildOptions,
+  BusinessRule,
+  DictionaryModel,
+  EndpointSummary,
+  ExampleSummary,
+  FieldInstance,
+  OpenAPISpec,
+  SchemaSummary
+} from './types';
+import { indexPointers } from './pointers';
+import { schemaType } from './normalize';
+import { lintFields } from './lint';
+import { attachGlossary } from './glossary';
+import { checkVersioning } from './versioning';
+import { specKeyOf } from './spec-files';
+import {
+  applyConditionalRequirements,
+  HTTP_METHODS,
+  processOperation,
+  sanitizeOperationId,
+  summarizeSecuritySchemes
+} from './operations';
+
+/**
+ * Builds the data dictionary model for one OpenAPI document: a path to a spec
+ * file, or an already-loaded document. Nothing is written to disk.
+ */
+export async function buildDictionary(spec: string | OpenAPISpec, options: BuildOptions = {}): Promise<DictionaryModel> {
+  const recursionDepth = options.recursionDepth ?? 0;
+
+  // Bundle first so every node can be traced back to its spec location.
+  // Parsing works in place, so a caller's document is copied first.
+  const input = typeof spec === 'string' ? spec : structuredClone(spec) as unknown as OpenAPI.Document;
+  const bundled = await SwaggerParser.bundle(input);
+  indexPointers(bundled);
+  const api = await SwaggerParser.dereference(bundled) as OpenAPISpec;
+
+  const fieldInstances: FieldInstance[] = [];
+  const endpoints: EndpointSummary[] = [];
+  const schemas: SchemaSummary[] = [];
+  const businessRules: BusinessRule[] = [];
+  const examples: ExampleSummary[] = [];
+  const securitySchemes = summarizeSecuritySchemes(api);
+
+  const tables = { fieldInstances, endpoints, businessRules, examples };
+
+  // Process paths, plus any callbacks they declare
+  for (const [pathUrl, pathItem] of Object.entries(api.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      const operationId = operation.operationId || sanitizeOperationId(method, pathUrl);
+      processOperation({
+        kind: 'operation',
+        method,
+        path: pathUrl,
+        operationId,
+        operation,
+        pathParams: pathItem.parameters || [],
+        defaultSecurity: api.security
+      }, tables, recursionDepth);
+
+      for (const [callbackName, callback] of Object.entries(operation.callbacks || {})) {
+        for (const [expression, callbackPathItem] of Object.entries(callback)) {
+          for (const callbackMethod of HTTP_METHODS) {
+            const callbackOperation = callbackPathItem[callbackMethod];
+            if (!callbackOperation) continue;
+
+            processOperation({
+              kind: 'callback',
+              method: callbackMethod,
+              path: expression,
+              operationId: callbackOperation.operationId || `${operationId}_${callbackName}_${callbackMethod}`,
+              operation: callbackOperation,
+              pathParams: callbackPathItem.parameters || [],
+              defaultSecurity: api.security
+            }, tables, recursionDepth);
+          }
+        }
+      }
+    }
+  }
+
+  // Process OpenAPI 3.1 webhooks, keyed by webhook name instead of a path
+  for (const [webhookName, pathItem] of Object.entries(api.webhooks || {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+
+      processOperation({
+        kind: 'webhook',
+        method,
+        path: webhookName,
+        operationId: operation.operationId || sanitizeOperationId(method, webhookName),
+        operation,
+        pathParams: pathItem.parameters || [],
+        defaultSecurity: api.security
+      }, tables, recursionDepth);
+    }
+  }
+
+  applyConditionalRequirements(fieldInstances, businessRules);
+
+  // Process component schemas for summary
+  if (api.components?.schemas) {
+    for (const [name, schema] of Object.entries(api.components.schemas)) {
+      const propCount = schema.properties ? Object.keys(schema.properties).length : 0;
+      schemas.push({
+        name,
+        type: schemaType(schema) || (schema.allOf ? 'allOf' : schema.oneOf ? 'oneOf' : schema.anyOf ? 'anyOf' : 'unknown'),
+        description: schema.description || '',
+        propertyCount: propCount,
+        required: (schema.required || []).join(', ')
+      });
+    }
+  }
+
+  // Sort field instances deterministically
+  fieldInstances.sort((a, b) => {
+    const pathCmp = a.path.localeCompare(b.path);
+    if (pathCmp !== 0) return pathCmp;
+
+    const methodCmp = a.method.localeCompare(b.method);
+    if (methodCmp !== 0) return methodCmp;
+
+    const locationOrder = [
+      'path_param', 'query_param', 'header_param', 'cookie_param',
+      'request_body', 'response_header', 'response_body', 'callback_body'
+    ];
+    const locCmp = locationOrder.indexOf(a.location) - locationOrder.indexOf(b.location);
+    if (locCmp !== 0) return locCmp;
+
+    const statusCmp = a.httpStatus.localeCompare(b.httpStatus);
+    if (statusCmp !== 0) return statusCmp;
+
+    return a.fieldPath.localeCompare(b.fieldPath);
+  });
+
+  // Sort endpoints
+  endpoints.sort((a, b) => {
+    const pathCmp = a.path.localeCompare(b.path);
+    if (pathCmp !== 0) return pathCmp;
+    return a.method.localeCompare(b.method);
+  });
+
+  // Sort schemas
+  schemas.sort((a, b) => a.name.localeCompare(b.name));
+
+  const glossary = options.glossary ?? [];
+  attachGlossary(fieldInstances, glossary);
+
+  // Lint after sorting so violations come out in endpoint and field order
+  const lintViolations = [
+    ...checkVersioning(api.info.version, endpoints, typeof spec === 'string' ? specKeyOf(spec) : ''),
+    ...lintFields(fieldInstances, { ...options.lint, glossary })
+  ];
+
+  return {
+    apiInfo: {
+      title: api.info.title,
+      version: api.info.version,
+      description: api.info.description
+    },
+    fieldInstances,
+    endpoints,
+    schemas,
+    businessRules,
+    examples,
+    securitySchemes,
+    lintViolations
+  };
+}
@@ -0,0 +1,208 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { composeAllOf } from './compose';
+import { buildDictionary } from './build';
+import type { OpenAPISpec } from './types';
+
+describe('composeAllOf', () => {
+  test('merges properties and required lists from every branch', () => {
+    const { merged, conflicts } = composeAllOf({
+      allOf: [
+        { type: 'object', required: ['id'], properties: { id: { type: 'string' } } },
+        { type: 'object', required: ['name'], properties: { name: { type: 'string' } } }
+      ]
+    });
+
+    assert.deepEqual(Object.keys(merged.properties!).sort(), ['id', 'name']);
+    assert.deepEqual([...merged.required!].sort(), ['id', 'name']);
+    assert.deepEqual(conflicts, []);
+  });
+
+  test('keeps the tighter bound and narrows number to integer', () => {
+    const { merged } = composeAllOf({
+      allOf: [
+        { type: 'number', minimum: 0, maximum: 100 },
+        { type: 'integer', minimum: 10, maximum: 1000 }
+      ]
+    });
+
+    assert.equal(merged.type, 'integer');
+    assert.equal(merged.minimum, 10);
+    assert.equal(merged.maximum, 100);
+  });
+
+  test('is nullable only when every typed branch allows null', () => {
+    const nonNull = composeAllOf({ allOf: [{ type: ['string', 'null'] }, { type: 'string', maxLength: 5 }] });
+    const untyped = composeAllOf({ allOf: [{ type: ['string', 'null'] }, { maxLength: 5 }] });
+    const bothNullable = composeAllOf({ allOf: [{ type: 'string', nullable: true }, { type: ['string', 'null'] }] });
+
+    assert.equal(nonNull.merged.nullable, false);
+    assert.equal(untyped.merged.nullable, true);
+    assert.equal(bothNullable.merged.nullable, true);
+  });
+
+  test('keeps the tighter exclusive bound in either form', () => {
+    const { merged } = composeAllOf({
+      allOf: [
+        { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+        { type: 'number', minimum: 0, exclusiveMaximum: 50 }
+      ]
+    });
+
+    assert.deepEqual(
+      [merged.minimum, merged.exclusiveMinimum, merged.maximum, merged.exclusiveMaximum],
+      [undefined, 0, undefined, 50]
+    );
+
+    const legacy = composeAllOf({ allOf: [{ minimum: 5, exclusiveMinimum: true }, { minimum: 10 }] }).merged;
+    assert.deepEqual([legacy.minimum, legacy.exclusiveMinimum], [10, undefined]);
+  });
+
+  test('reports an empty numeric range', () => {
+    const { conflicts } = composeAllOf({ allOf: [{ exclusiveMinimum: 10 }, { maximum: 10 }] });
+    assert.deepEqual(conflicts, [{ path: '', message: 'allOf conflict: exclusiveMinimum=10 exceeds maximum=10' }]);
+  });
+
+  test('combines multipleOf', () => {
+    assert.equal(composeAllOf({ allOf: [{ multipleOf: 2 }, { multipleOf: 4 }] }).merged.multipleOf, 4);
+    assert.equal(composeAllOf({ allOf: [{ multipleOf: 4 }, { multipleOf: 6 }] }).merged.multipleOf, 12);
+  });
+
+  test('combines decimal multipleOf without floating-point conflicts', () => {
+    const cents = composeAllOf({ allOf: [{ multipleOf: 0.01 }, { multipleOf: 0.05 }] });
+    assert.equal(cents.merged.multipleOf, 0.05);
+    assert.deepEqual(cents.conflicts, []);
+    assert.equal(composeAllOf({ allOf: [{ multipleOf: 0.5 }, { multipleOf: 0.3 }] }).merged.multipleOf, 1.5);
+    assert.deepEqual(composeAllOf({ allOf: [{ multipleOf: 1e-20 }, { multipleOf: 3 }] }).conflicts, [
+      { path: '', message: 'allOf: both multipleOf apply, also 3' }
+    ]);
+  });
+
+  test('keeps the types that every branch allows', () => {
+    const stringOrInteger = composeAllOf({ allOf: [{ type: ['string', 'integer'] }, { type: 'string', maxLength: 5 }] });
+    assert.equal(stringOrInteger.merged.type, 'string');
+    assert.deepEqual(stringOrInteger.conflicts, []);
+
+    assert.equal(composeAllOf({ allOf: [{ type: ['string', 'integer'] }, { type: 'number' }] }).merged.type, 'integer');
+    assert.deepEqual(composeAllOf({ allOf: [{ type: ['string', 'boolean'] }, { type: 'number' }] }).conflicts, [
+      { path: '', message: 'allOf conflict: type string | boolean vs number' }
+    ]);
+  });
+
+  test('intersects enums', () => {
+    const { merged } = composeAllOf({ allOf: [{ enum: ['A', 'B', 'C'] }, { enum: ['B', 'C', 'D'] }] });
+    assert.deepEqual(merged.enum, ['B', 'C']);
+  });
+
+  test('reports contradictions at the property they concern', () => {
+    const { conflicts } = composeAllOf({
+      allOf: [
+        { properties: { code: { type: 'string', minLength: 5 } } },
+        { properties: { code: { type: 'integer', maxLength: 2 } } }
+      ]
+    });
+
+    assert.deepEqual(conflicts, [
+      { path: 'code', message: 'allOf conflict: type string vs integer' },
+      { path: 'code', message: 'allOf conflict: minLength=5 exceeds maxLength=2' }
+    ]);
+  });
+
+  test('keeps an object closed when any branch closes it', () => {
+    const { merged } = composeAllOf({ allOf: [{ type: 'object' }, { type: 'object', additionalProperties: false }] });
+    assert.equal(merged.additionalProperties, false);
+  });
+});
+
+describe('allOf provenance', () => {
+  const spec: OpenAPISpec = {
+    openapi: '3.1.0',
+    info: { title: 'Quotes', version: '1.0.0' },
+    paths: {
+      '/v1/quotes': {
+        post: {
+          operationId: 'createQuote',
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    amounts: { allOf: [{ $ref: '#/components/schemas/Amounts' }, { description: 'Requested amounts' }] }
+                  }
+                }
+              }
+            }
+          },
+          responses: {
+            '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/PartialQuote' } } } }
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        Amounts: { type: 'object', properties: { gross: { type: 'number' } } },
+        PartialAmounts: { allOf: [{ $ref: '#/components/schemas/Amounts' }, { properties: { net: { type: 'number' } } }] },
+        PartialQuote: { type: 'object', properties: { amounts: { $ref: '#/components/schemas/PartialAmounts' } } }
+      }
+    }
+  };
+
+  test('a composed component keeps its own name and pointer', async () => {
+    const model = await buildDictionary(spec);
+    const amounts = model.fieldInstances.find(field => field.location === 'response_body' && field.fieldPath === 'amounts')!;
+
+    assert.equal(amounts.schemaName, 'PartialAmounts');
+    assert.equal(amounts.sourceRef, '#/components/schemas/PartialAmounts');
+  });
+
+  test('an inline allOf property points at the property', async () => {
+    const model = await buildDictionary(spec);
+    const amounts = model.fieldInstances.find(field => field.location === 'request_body' && field.fieldPath === 'amounts')!;
+
+    assert.equal(amounts.sourceRef, '#/paths/~1v1~1quotes/post/requestBody/content/application~1json/schema/properties/amounts');
+  });
+
+  test('properties still point at the branch that declares them', async () => {
+    const model = await buildDictionary(spec);
+    const gross = model.fieldInstances.find(field => field.location === 'response_body' && field.fieldPath === 'amounts.gross')!;
+
+    assert.equal(gross.sourceRef, '#/components/schemas/Amounts/properties/gross');
+  });
+
+  test('a self-referencing composed schema names itself in the recursion marker', async () => {
+    const model = await buildDictionary({
+      openapi: '3.1.0',
+      info: { title: 'Trees', version: '1.0.0' },
+      paths: {
+        '/v1/nodes': {
+          get: {
+            operationId: 'getNode',
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { type: 'object', properties: { root: { $ref: '#/components/schemas/Node' } } } } }
+              }
+            }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          Base: { type: 'object', properties: { nodeId: { type: 'string' } } },
+          Node: {
+            allOf: [
+              { $ref: '#/components/schemas/Base' },
+              { properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } } } }
+            ]
+          }
+        }
+      }
+    });
+    const marker = model.fieldInstances.find(field => field.recursiveRef)!;
+
+    assert.equal(marker.recursiveRef, 'Node');
+    assert.match(marker.issues, /^recursive reference to Node,/);
+  });
+});
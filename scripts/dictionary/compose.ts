@@ -0,0 +1,265 @@
+import type { FieldInstance, Schema } from './types';
+import { inheritPointer } from './pointers';
+import { definedOnly, normalizeSchema, schemaType } from './normalize';
+import { conditionalsOf, foldedConditionals, formatValue, withoutConditional } from './constraints';
+
+// A contradiction found while composing allOf, relative to the composed schema
+interface CompositionConflict {
+  path: string;
+  message: string;
+}
+
+const composedSchemaCache = new WeakMap<Schema, { merged: Schema; conflicts: CompositionConflict[] }>();
+
+function childPath(parent: string, child: string): string {
+  if (!parent) return child;
+  if (!child) return parent;
+  return child.startsWith('[') ? `${parent}${child}` : `${parent}.${child}`;
+}
+
+/**
+ * Resolves `allOf` into a single schema: the wrapper's own keywords plus
+ * every branch (itself composed first), merged property by property.
+ */
+export function composeAllOf(schema: Schema): { merged: Schema; conflicts: CompositionConflict[] } {
+  const cached = composedSchemaCache.get(schema);
+  if (cached) return cached;
+
+  if (!schema.allOf || schema.allOf.length === 0) {
+    return { merged: schema, conflicts: [] };
+  }
+
+  const conflicts: CompositionConflict[] = [];
+  const { allOf, ...wrapper } = schema;
+  const conditionals = conditionalsOf(wrapper);
+
+  // Registered before merging so the result points at this schema, not its first branch
+  let merged: Schema = withoutConditional(wrapper);
+  inheritPointer(merged, schema);
+  for (const branch of allOf) {
+    const composed = composeAllOf(normalizeSchema(branch));
+    conflicts.push(...composed.conflicts);
+    conditionals.push(...conditionalsOf(composed.merged));
+    merged = mergeSchemas(merged, withoutConditional(composed.merged), '', conflicts);
+  }
+
+  if (conditionals.length > 0) foldedConditionals.set(merged, conditionals);
+  const result = { merged, conflicts };
+  composedSchemaCache.set(schema, result);
+  return result;
+}
+
+function mergeSchemas(
+  a: Schema,
+  b: Schema,
+  path: string,
+  conflicts: CompositionConflict[],
+  seen: Set<Schema> = new Set()
+): Schema {
+  if (a === b || seen.has(a) || seen.has(b)) return a;
+  seen.add(a);
+  seen.add(b);
+
+  const conflict = (message: string) => conflicts.push({ path, message });
+  const merged: Schema = { ...b, ...definedOnly(a) };
+  inheritPointer(merged, a);
+  inheritPointer(merged, b);
+
+  // Types: the value must satisfy both, so only the types they share remain (integer narrows number)
+  const typeA = schemaType(a);
+  const typeB = schemaType(b);
+  if (typeA && typeB && typeA !== typeB) {
+    const shared = sharedTypes(typeA.split(' | '), typeB.split(' | '));
+    if (shared.length > 0) {
+      merged.type = shared.join(' | ');
+    } else {
+      conflict(`allOf conflict: type ${typeA} vs ${typeB}`);
+    }
+  }
+
+  // A value may only be null if every branch that states a type allows it
+  if (a.nullable !== undefined || b.nullable !== undefined) {
+    merged.nullable = (nullability(a) ?? true) && (nullability(b) ?? true);
+  }
+
+  for (const flag of ['deprecated', 'readOnly', 'writeOnly'] as const) {
+    if (a[flag] || b[flag]) merged[flag] = true;
+  }
+
+  if (a.format && b.format && a.format !== b.format) {
+    conflict(`allOf conflict: format ${a.format} vs ${b.format}`);
+  }
+
+  if (a.pattern && b.pattern && a.pattern !== b.pattern) {
+    conflict(`allOf: both patterns apply, also ${b.pattern}`);
+  }
+
+  // Bounds: the tighter of the two wins
+  for (const key of ['maxLength', 'maxItems', 'maxProperties'] as const) {
+    if (a[key] !== undefined && b[key] !== undefined) merged[key] = Math.min(a[key]!, b[key]!);
+  }
+  for (const key of ['minLength', 'minItems', 'minProperties'] as const) {
+    if (a[key] !== undefined && b[key] !== undefined) merged[key] = Math.max(a[key]!, b[key]!);
+  }
+  for (const [min, max] of [['minLength', 'maxLength'], ['minItems', 'maxItems'], ['minProperties', 'maxProperties']] as const) {
+    if (merged[min] !== undefined && merged[max] !== undefined && merged[min]! > merged[max]!) {
+      conflict(`allOf conflict: ${min}=${merged[min]} exceeds ${max}=${merged[max]}`);
+    }
+  }
+
+  // Numeric range, with inclusive and exclusive bounds in either the 3.0 or 3.1 form
+  const lower = tighterBound(boundOf(a, 'lower'), boundOf(b, 'lower'), 'lower');
+  const upper = tighterBound(boundOf(a, 'upper'), boundOf(b, 'upper'), 'upper');
+  if (boundOf(a, 'lower') && boundOf(b, 'lower')) setBound(merged, lower!, 'lower');
+  if (boundOf(a, 'upper') && boundOf(b, 'upper')) setBound(merged, upper!, 'upper');
+  if (lower && upper && (lower.value > upper.value || (lower.value === upper.value && (lower.exclusive || upper.exclusive)))) {
+    conflict(`allOf conflict: ${describeBound(lower, 'lower')} exceeds ${describeBound(upper, 'upper')}`);
+  }
+
+  if (a.multipleOf !== undefined && b.multipleOf !== undefined && a.multipleOf !== b.multipleOf) {
+    const multiple = leastCommonMultiple(a.multipleOf, b.multipleOf);
+    if (multiple !== undefined) {
+      merged.multipleOf = multiple;
+    } else {
+      conflict(`allOf: both multipleOf apply, also ${b.multipleOf}`);
+    }
+  }
+
+  if (a.enum && b.enum) {
+    merged.enum = a.enum.filter(value => b.enum!.includes(value));
+    if (merged.enum.length === 0) {
+      conflict(`allOf conflict: enum [${a.enum.join(', ')}] and [${b.enum.join(', ')}] have no overlap`);
+    }
+  }
+
+  if (a.const !== undefined && b.const !== undefined && a.const !== b.const) {
+    conflict(`allOf conflict: const ${formatValue(a.const)} vs ${formatValue(b.const)}`);
+  }
+  const constant = a.const !== undefined ? a.const : b.const;
+  if (constant !== undefined && merged.enum && !merged.enum.includes(constant as string | number)) {
+    conflict(`allOf conflict: const ${formatValue(constant)} is not in enum`);
+  }
+
+  if (a.properties || b.properties) {
+    merged.properties = { ...b.properties, ...a.properties };
+    for (const [name, propB] of Object.entries(b.properties || {})) {
+      const propA = a.properties?.[name];
+      if (!propA) continue;
+
+      const propPath = childPath(path, name);
+      const composedA = composeAllOf(normalizeSchema(propA));
+      const composedB = composeAllOf(normalizeSchema(propB));
+      conflicts.push(...[...composedA.conflicts, ...composedB.conflicts].map(c => ({ ...c, path: childPath(propPath, c.path) })));
+      merged.properties[name] = mergeSchemas(composedA.merged, composedB.merged, propPath, conflicts, seen);
+    }
+  }
+
+  if (a.required || b.required) {
+    merged.required = [...new Set([...(a.required || []), ...(b.required || [])])];
+  }
+
+  if (a.items && b.items) {
+    merged.items = mergeSchemas(normalizeSchema(a.items), normalizeSchema(b.items), childPath(path, '[]'), conflicts, seen);
+  }
+
+  // A closed object stays closed; two value schemas must both hold
+  if (a.additionalProperties === false || b.additionalProperties === false) {
+    merged.additionalProperties = false;
+  } else if (typeof a.additionalProperties === 'object' && typeof b.additionalProperties === 'object') {
+    merged.additionalProperties = mergeSchemas(a.additionalProperties, b.additionalProperties, path, conflicts, seen);
+  }
+
+  if (a.patternProperties || b.patternProperties) {
+    merged.patternProperties = { ...b.patternProperties, ...a.patternProperties };
+  }
+
+  for (const keyword of ['oneOf', 'anyOf'] as const) {
+    if (a[keyword] && b[keyword]) {
+      conflict(`allOf: nested ${keyword} sets cannot be combined, second set not expanded`);
+    }
+  }
+
+  return merged;
+}
+
+// Whether a branch admits null: its nullable flag, or false when it states a non-null type
+function nullability(schema: Schema): boolean | undefined {
+  if (schema.nullable !== undefined) return schema.nullable;
+  return schemaType(schema) && schemaType(schema) !== 'null' ? false : undefined;
+}
+
+interface Bound {
+  value: number;
+  exclusive: boolean;
+}
+
+type BoundSide = 'lower' | 'upper';
+
+const BOUND_KEYWORDS = {
+  lower: { inclusive: 'minimum', exclusive: 'exclusiveMinimum' },
+  upper: { inclusive: 'maximum', exclusive: 'exclusiveMaximum' }
+} as const;
+
+// 3.1 numeric exclusive bounds, or a 3.0 `exclusiveMinimum: true` that turns `minimum` exclusive
+function boundOf(schema: Schema, side: BoundSide): Bound | undefined {
+  const { inclusive, exclusive } = BOUND_KEYWORDS[side];
+  const candidates: Bound[] = [];
+  if (typeof schema[exclusive] === 'number') candidates.push({ value: schema[exclusive] as number, exclusive: true });
+  if (schema[inclusive] !== undefined) candidates.push({ value: schema[inclusive]!, exclusive: schema[exclusive] === true });
+  return candidates.reduce<Bound | undefined>((tightest, bound) => tighterBound(tightest, bound, side), undefined);
+}
+
+function tighterBound(a: Bound | undefined, b: Bound | undefined, side: BoundSide): Bound | undefined {
+  if (!a || !b) return a || b;
+  if (a.value !== b.value) return (side === 'lower' ? a.value > b.value : a.value < b.value) ? a : b;
+  return a.exclusive ? a : b;
+}
+
+function setBound(schema: Schema, bound: Bound, side: BoundSide): void {
+  const { inclusive, exclusive } = BOUND_KEYWORDS[side];
+  delete schema[inclusive];
+  delete schema[exclusive];
+  if (bound.exclusive) schema[exclusive] = bound.value;
+  else schema[inclusive] = bound.value;
+}
+
+function describeBound(bound: Bound, side: BoundSide): string {
+  const { inclusive, exclusive } = BOUND_KEYWORDS[side];
+  return `${bound.exclusive ? exclusive : inclusive}=${bound.value}`;
+}
+
+function sharedTypes(typesA: string[], typesB: string[]): string[] {
+  const shared = typesA.flatMap(type => {
+    if (typesB.includes(type)) return [type];
+    if (type === 'integer' && typesB.includes('number')) return ['integer'];
+    if (type === 'number' && typesB.includes('integer')) return ['integer'];
+    return [];
+  });
+  return [...new Set(shared)];
+}
+
+// Decimal multiples are scaled to integers first, since 0.05 % 0.01 is not 0 in floating point
+function leastCommonMultiple(a: number, b: number): number | undefined {
+  const scale = 10 ** Math.max(decimalPlaces(a), decimalPlaces(b));
+  const [scaledA, scaledB] = [Math.round(a * scale), Math.round(b * scale)];
+  const multiple = (scaledA / gcd(scaledA, scaledB)) * scaledB;
+  return scaledA > 0 && scaledB > 0 && Number.isSafeInteger(multiple) ? multiple / scale : undefined;
+}
+
+function decimalPlaces(value: number): number {
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  return Math.max(0, (mantissa.split('.')[1] || '').length - Number(exponent));
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+export function attachConflicts(rows: FieldInstance[], conflicts: CompositionConflict[], basePath: string): void {
+  for (const { path: relativePath, message } of conflicts) {
+    const fieldPath = childPath(basePath, relativePath);
+    const target = rows.find(row => row.fieldPath === fieldPath) || rows[0];
+    if (!target) continue;
+    target.issues = target.issues ? `${target.issues}; ${message}` : message;
+  }
+}
@@ -0,0 +1,175 @@
+import type { ConstraintDetails, Schema } from './types';
+import { inheritPointer, schemaPointer, unescapePointerSegment } from './pointers';
+import { definedOnly, schemaType } from './normalize';
+
+// if/then/else branches gathered from allOf parts during composition
+export const foldedConditionals = new WeakMap<Schema, Schema[]>();
+
+export function conditionalsOf(schema: Schema): Schema[] {
+  const folded = foldedConditionals.get(schema);
+  if (folded) return folded;
+  return schema.if ? [{ if: schema.if, then: schema.then, else: schema.else }] : [];
+}
+
+export function withoutConditional(schema: Schema): Schema {
+  if (!schema.if && !schema.then && !schema.else) return schema;
+
+  const { if: _if, then: _then, else: _else, ...rest } = schema;
+  inheritPointer(rest, schema);
+  return rest;
+}
+
+export function buildConstraintDetails(schema: Schema): ConstraintDetails {
+  let { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+
+  // OpenAPI 3.0 booleans turn minimum/maximum into exclusive bounds
+  if (typeof exclusiveMinimum === 'boolean') {
+    if (exclusiveMinimum && minimum !== undefined) [exclusiveMinimum, minimum] = [minimum, undefined];
+    else exclusiveMinimum = undefined;
+  }
+  if (typeof exclusiveMaximum === 'boolean') {
+    if (exclusiveMaximum && maximum !== undefined) [exclusiveMaximum, maximum] = [maximum, undefined];
+    else exclusiveMaximum = undefined;
+  }
+
+  const details: ConstraintDetails = definedOnly({
+    pattern: schema.pattern,
+    minLength: schema.minLength,
+    maxLength: schema.maxLength,
+    minimum,
+    exclusiveMinimum,
+    maximum,
+    exclusiveMaximum,
+    multipleOf: schema.multipleOf,
+    minItems: schema.minItems,
+    maxItems: schema.maxItems,
+    uniqueItems: schema.uniqueItems || undefined,
+    minContains: schema.minContains,
+    maxContains: schema.maxContains,
+    minProperties: schema.minProperties,
+    maxProperties: schema.maxProperties
+  });
+
+  if (schema.propertyNames) details.propertyNames = compactSchema(schema.propertyNames);
+  if (schema.contains) details.contains = compactSchema(schema.contains);
+  if (schema.prefixItems) details.prefixItems = schema.prefixItems.map(item => compactSchema(item));
+  if (schema.dependentRequired) details.dependentRequired = schema.dependentRequired;
+  if (schema.dependentSchemas) details.dependentSchemas = compactSchemaMap(schema.dependentSchemas);
+  if (schema.enum) details.enum = schema.enum;
+  if (schema.const !== undefined) details.const = schema.const;
+  if (schema.not) details.not = compactSchema(schema.not);
+
+  const conditionals = conditionalsOf(schema);
+  if (conditionals.length > 0) {
+    details.conditionals = conditionals.map(conditional => definedOnly({
+      if: conditional.if && compactSchema(conditional.if),
+      then: conditional.then && compactSchema(conditional.then),
+      else: conditional.else && compactSchema(conditional.else)
+    }));
+  }
+
+  return details;
+}
+
+export function buildConstraints(schema: Schema): string {
+  return Object.entries(buildConstraintDetails(schema))
+    .map(([keyword, value]) => formatConstraint(schema, keyword, value))
+    .join('; ');
+}
+
+function formatConstraint(schema: Schema, keyword: string, value: unknown): string {
+  switch (keyword) {
+    case 'enum':
+      return `enum=[${(value as unknown[]).join(', ')}]`;
+    case 'const':
+      return `const=${value === null ? 'null' : formatValue(value)}`;
+    case 'propertyNames':
+    case 'contains':
+    case 'not':
+      return `${keyword}=${describeSchemaBrief(schema[keyword]!)}`;
+    case 'prefixItems':
+      return `prefixItems=[${schema.prefixItems!.map(describeSchemaBrief).join(', ')}]`;
+    case 'dependentRequired':
+      return `dependentRequired=${Object.entries(schema.dependentRequired!)
+        .map(([name, required]) => `${name} -> [${required.join(', ')}]`).join(', ')}`;
+    case 'dependentSchemas':
+      return `dependentSchemas=${Object.entries(schema.dependentSchemas!)
+        .map(([name, dependent]) => `${name} -> ${describeSchemaBrief(dependent)}`).join(', ')}`;
+    case 'conditionals':
+      return conditionalsOf(schema).map(conditional => [
+        `if ${describeSchemaBrief(conditional.if || {})}`,
+        conditional.then && `then ${describeSchemaBrief(conditional.then)}`,
+        conditional.else && `else ${describeSchemaBrief(conditional.else)}`
+      ].filter(Boolean).join(' ')).join('; ');
+    default:
+      return `${keyword}=${formatValue(value)}`;
+  }
+}
+
+function componentRef(schema: Schema): string {
+  const pointer = schemaPointer(schema);
+  return /^#\/components\/schemas\/[^/]+$/.test(pointer) ? pointer : '';
+}
+
+// One-line rendering of a subschema for the Constraints column
+function describeSchemaBrief(schema: Schema): string {
+  const ref = componentRef(schema);
+  if (ref) return unescapePointerSegment(ref.split('/').pop()!);
+
+  const parts: string[] = [];
+  if (schema.type) parts.push(schemaType(schema));
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    if (property.const !== undefined) parts.push(`${name}=${formatValue(property.const)}`);
+    else if (property.enum) parts.push(`${name} in [${property.enum.join(', ')}]`);
+  }
+  if (schema.required?.length) parts.push(`required [${schema.required.join(', ')}]`);
+  for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+    if (schema[keyword]) parts.push(`${keyword}(${schema[keyword]!.map(describeSchemaBrief).join(' | ')})`);
+  }
+  const constraints = buildConstraints(schema);
+  if (constraints) parts.push(constraints);
+
+  return `{${parts.join(', ')}}`;
+}
+
+// JSON-safe copy of a subschema; named components collapse to a $ref
+function compactSchema(schema: Schema, depth: number = 0): Record<string, unknown> {
+  const ref = componentRef(schema);
+  if (ref) return { $ref: ref };
+  if (depth > 4) return {};
+
+  const compact: Record<string, unknown> = {};
+  for (const [keyword, value] of Object.entries(schema)) {
+    if (value === undefined || ['description', 'example', 'examples', 'title'].includes(keyword)) continue;
+
+    if (['properties', 'patternProperties', 'dependentSchemas'].includes(keyword)) {
+      compact[keyword] = compactSchemaMap(value as Record<string, Schema>, depth + 1);
+    } else if (Array.isArray(value)) {
+      compact[keyword] = value.map(v => (v && typeof v === 'object' ? compactSchema(v, depth + 1) : v));
+    } else if (value && typeof value === 'object') {
+      compact[keyword] = compactSchema(value as Schema, depth + 1);
+    } else {
+      compact[keyword] = value;
+    }
+  }
+  return compact;
+}
+
+function compactSchemaMap(schemas: Record<string, Schema>, depth: number = 0): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(schemas).map(([name, schema]) => [name, compactSchema(schema, depth)]));
+}
+
+export function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function schemaExample(schema: Schema): unknown {
+  if (schema.example !== undefined) return schema.example;
+  return schema.examples?.[0];
+}
+
+export function yesNo(value: boolean | undefined): string {
+  return value ? 'Yes' : 'No';
+}
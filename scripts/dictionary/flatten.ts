@@ -0,0 +1,576 @@
+import type { FieldInstance, FlattenContext, Schema, VariantContext } from './types';
+import { getSchemaName, schemaPointer, unescapePointerSegment } from './pointers';
+import { normalizeSchema, schemaType } from './normalize';
+import { buildConstraintDetails, buildConstraints, formatValue, schemaExample, yesNo } from './constraints';
+import { attachConflicts, composeAllOf } from './compose';
+import { classifyPii } from './pii';
+
+const NO_VARIANT: VariantContext = { variant: '', variantKind: '', discriminatorValue: '' };
+
+export function flattenSchema(
+  schema: Schema,
+  fieldPath: string,
+  ctx: FlattenContext,
+  parentSchemaName: string,
+  variantCtx: VariantContext = NO_VARIANT,
+  visited: Map<Schema, number> = new Map()
+): FieldInstance[] {
+  const results: FieldInstance[] = [];
+  const issues: string[] = [];
+
+  schema = normalizeSchema(schema);
+
+  // Stop at a schema already being expanded further up this path
+  const expansions = visited.get(schema) || 0;
+  if (expansions > ctx.recursionDepth) {
+    return [recursionMarker(schema, fieldPath, ctx, parentSchemaName, variantCtx)];
+  }
+  visited.set(schema, expansions + 1);
+
+  // Handle allOf
+  if (schema.allOf && schema.allOf.length > 0) {
+    const { merged, conflicts } = composeAllOf(schema);
+
+    const schemaName = getSchemaName(schema) || parentSchemaName;
+    const rows = flattenSchema(merged, fieldPath, ctx, schemaName, variantCtx, visited);
+    attachConflicts(rows, conflicts, fieldPath);
+    return rows;
+  }
+
+  // Handle oneOf/anyOf - shared properties once, then one set of rows per variant; a branch
+  // that only lists required properties marks those rows instead
+  for (const variantKind of ['oneOf', 'anyOf'] as const) {
+    const branches = schema[variantKind];
+    if (!branches || branches.length === 0) continue;
+
+    const { [variantKind]: _branches, ...base } = schema;
+    const baseRows = flattenSchema(base, fieldPath, ctx, parentSchemaName, variantCtx, new Map(visited));
+    results.push(...baseRows);
+
+    branches.forEach((branch, index) => {
+      const branchName = variantName(branch, index);
+      if (isConstraintOnlyBranch(branch)) {
+        noteBranchRequirements(baseRows, fieldPath, branch, `${variantKind} ${branchName}`);
+        return;
+      }
+
+      const childCtx = nestVariant(variantCtx, {
+        variant: branchName,
+        variantKind,
+        discriminatorValue: discriminatorValueFor(schema, branches, branch, branchName)
+      });
+      const branchRequired = { ...ctx, requiredFields: new Set(branch.required || []) };
+      results.push(...flattenSchema(branch, fieldPath, branchRequired, parentSchemaName, childCtx, new Map(visited)));
+    });
+    return results;
+  }
+
+  // Handle arrays
+  if (schema.type === 'array' && schema.items) {
+    const itemSchema = normalizeSchema(schema.items);
+    const arrayPath = fieldPath ? `${fieldPath}[]` : '[]';
+
+    // If items is an object, flatten its properties
+    if (itemSchema.type === 'object' || itemSchema.properties || itemSchema.allOf || itemSchema.oneOf || itemSchema.anyOf) {
+      const itemSchemaName = getSchemaName(itemSchema) || parentSchemaName;
+      return flattenSchema(itemSchema, arrayPath, ctx, itemSchemaName, variantCtx, visited);
+    }
+
+    // Primitive array items; array-level constraints win over item-level ones
+    const fieldName = fieldPath.split('.').pop() || fieldPath || 'items';
+    const constrained = buildConstraints(schema) ? schema : itemSchema;
+    results.push({
+      operationId: ctx.operationId,
+      method: ctx.method,
+      path: ctx.path,
+      tags: ctx.tags,
+      summary: ctx.summary,
+      location: ctx.location,
+      httpStatus: ctx.httpStatus,
+      mediaType: ctx.mediaType,
+      style: '',
+      explode: '',
+      allowReserved: '',
+      schemaName: parentSchemaName,
+      variant: variantCtx.variant,
+      variantKind: variantCtx.variantKind,
+      discriminatorValue: variantCtx.discriminatorValue,
+      fieldPath: arrayPath,
+      fieldName: `${fieldName}[]`,
+      type: 'array',
+      itemType: schemaType(itemSchema),
+      format: itemSchema.format || '',
+      required: yesNo(ctx.requiredFields.has(fieldName)),
+      conditionallyRequired: '',
+      nullable: yesNo(schema.nullable),
+      deprecated: yesNo(schema.deprecated),
+      readOnly: yesNo(schema.readOnly),
+      writeOnly: yesNo(schema.writeOnly),
+      additionalProperties: '',
+      pii: classifyPii(fieldName, schema, itemSchema),
+      description: schema.description || itemSchema.description || '',
+      glossaryTerm: '',
+      glossaryDefinition: '',
+      constraints: buildConstraints(constrained),
+      constraintDetails: buildConstraintDetails(constrained),
+      example: formatValue(schemaExample(schema)),
+      default: formatValue(schema.default),
+      sourceRef: schemaPointer(schema) || ctx.sourceRef,
+      recursiveRef: '',
+      issues: issues.join('; ')
+    });
+
+    return results;
+  }
+
+  // Handle object properties
+  if (schema.type === 'object' || schema.properties || isMapSchema(schema)) {
+    const properties = schema.properties || {};
+    const requiredFields = new Set(schema.required || []);
+
+    // A body's root object has no property row, so constraints of its own
+    // (if/then/else, dependentRequired, minProperties, ...) get a row at path ''
+    const rootConstraints = fieldPath ? '' : buildConstraints(schema);
+    if (rootConstraints) {
+      results.push({
+        operationId: ctx.operationId,
+        method: ctx.method,
+        path: ctx.path,
+        tags: ctx.tags,
+        summary: ctx.summary,
+        location: ctx.location,
+        httpStatus: ctx.httpStatus,
+        mediaType: ctx.mediaType,
+        style: '',
+        explode: '',
+        allowReserved: '',
+        schemaName: parentSchemaName,
+        variant: variantCtx.variant,
+        variantKind: variantCtx.variantKind,
+        discriminatorValue: variantCtx.discriminatorValue,
+        fieldPath: '',
+        fieldName: '',
+        type: schemaType(schema) || 'object',
+        itemType: mapValueType(schema),
+        format: schema.format || '',
+        required: '',
+        conditionallyRequired: '',
+        nullable: yesNo(schema.nullable),
+        deprecated: yesNo(schema.deprecated),
+        readOnly: yesNo(schema.readOnly),
+        writeOnly: yesNo(schema.writeOnly),
+        additionalProperties: objectOpenness(schema),
+        pii: '',
+        description: schema.description || '',
+        glossaryTerm: '',
+        glossaryDefinition: '',
+        constraints: rootConstraints,
+        constraintDetails: buildConstraintDetails(schema),
+        example: '',
+        default: formatValue(schema.default),
+        sourceRef: schemaPointer(schema) || ctx.sourceRef,
+        recursiveRef: '',
+        issues: ''
+      });
+    }
+
+    for (const [propName, rawPropSchema] of Object.entries(properties)) {
+      const { merged: propSchema, conflicts } = composeAllOf(normalizeSchema(rawPropSchema));
+      const firstRow = results.length;
+      const propPath = fieldPath ? `${fieldPath}.${propName}` : propName;
+      const propSchemaName = getSchemaName(propSchema) || parentSchemaName;
+
+      // Check if this property is a complex type that needs flattening
+      if (propSchema.type === 'object' || propSchema.properties || isMapSchema(propSchema) || propSchema.allOf || propSchema.oneOf || propSchema.anyOf) {
+        // Create a context with updated required fields
+        const newCtx = { ...ctx, requiredFields: new Set(propSchema.required || []) };
+
+        // Add a row for the object field itself
+        results.push({
+          operationId: ctx.operationId,
+          method: ctx.method,
+          path: ctx.path,
+          tags: ctx.tags,
+          summary: ctx.summary,
+          location: ctx.location,
+          httpStatus: ctx.httpStatus,
+          mediaType: ctx.mediaType,
+          style: '',
+          explode: '',
+          allowReserved: '',
+          schemaName: propSchemaName,
+          variant: variantCtx.variant,
+          variantKind: variantCtx.variantKind,
+          discriminatorValue: variantCtx.discriminatorValue,
+          fieldPath: propPath,
+          fieldName: propName,
+          type: schemaType(propSchema) || 'object',
+          itemType: mapValueType(propSchema),
+          format: propSchema.format || '',
+          required: yesNo(requiredFields.has(propName)),
+          conditionallyRequired: '',
+          nullable: yesNo(propSchema.nullable),
+          deprecated: yesNo(propSchema.deprecated),
+          readOnly: yesNo(propSchema.readOnly),
+          writeOnly: yesNo(propSchema.writeOnly),
+          additionalProperties: objectOpenness(propSchema),
+          pii: classifyPii(propName, propSchema),
+          description: propSchema.description || '',
+          glossaryTerm: '',
+          glossaryDefinition: '',
+          constraints: buildConstraints(propSchema),
+          constraintDetails: buildConstraintDetails(propSchema),
+          example: formatValue(schemaExample(propSchema)),
+          default: formatValue(propSchema.default),
+          sourceRef: schemaPointer(propSchema) || ctx.sourceRef,
+          recursiveRef: '',
+          issues: ''
+        });
+
+        // Flatten nested properties; a recursive property is annotated in place
+        const nested = flattenSchema(propSchema, propPath, newCtx, propSchemaName, variantCtx, new Map(visited));
+        const objectRow = results[results.length - 1];
+        if (nested.length === 1 && nested[0].recursiveRef && nested[0].fieldPath === propPath) {
+          objectRow.recursiveRef = nested[0].recursiveRef;
+          objectRow.issues = nested[0].issues;
+        } else {
+          results.push(...nested);
+        }
+      } else if (propSchema.type === 'array' && propSchema.items) {
+        // Handle array property
+        const arrayPath = `${propPath}[]`;
+        const itemSchema = normalizeSchema(propSchema.items);
+
+        // Add row for the array field
+        results.push({
+          operationId: ctx.operationId,
+          method: ctx.method,
+          path: ctx.path,
+          tags: ctx.tags,
+          summary: ctx.summary,
+          location: ctx.location,
+          httpStatus: ctx.httpStatus,
+          mediaType: ctx.mediaType,
+          style: '',
+          explode: '',
+          allowReserved: '',
+          schemaName: propSchemaName,
+          variant: variantCtx.variant,
+          variantKind: variantCtx.variantKind,
+          discriminatorValue: variantCtx.discriminatorValue,
+          fieldPath: propPath,
+          fieldName: propName,
+          type: 'array',
+          itemType: schemaType(itemSchema) || (itemSchema.properties ? 'object' : ''),
+          format: propSchema.format || '',
+          required: yesNo(requiredFields.has(propName)),
+          conditionallyRequired: '',
+          nullable: yesNo(propSchema.nullable),
+          deprecated: yesNo(propSchema.deprecated),
+          readOnly: yesNo(propSchema.readOnly),
+          writeOnly: yesNo(propSchema.writeOnly),
+          additionalProperties: objectOpenness(propSchema),
+          pii: classifyPii(propName, propSchema),
+          description: propSchema.description || '',
+          glossaryTerm: '',
+          glossaryDefinition: '',
+          constraints: buildConstraints(propSchema),
+          constraintDetails: buildConstraintDetails(propSchema),
+          example: formatValue(schemaExample(propSchema)),
+          default: formatValue(propSchema.default),
+          sourceRef: schemaPointer(propSchema) || ctx.sourceRef,
+          recursiveRef: '',
+          issues: ''
+        });
+
+        // Flatten array items if they're objects
+        if (itemSchema.type === 'object' || itemSchema.properties || itemSchema.allOf || itemSchema.oneOf || itemSchema.anyOf) {
+          const itemSchemaName = getSchemaName(itemSchema) || propSchemaName;
+          const newCtx = { ...ctx, requiredFields: new Set(itemSchema.required || []) };
+          results.push(...flattenSchema(itemSchema, arrayPath, newCtx, itemSchemaName, variantCtx, new Map(visited)));
+        }
+      } else {
+        // Primitive property
+        results.push({
+          operationId: ctx.operationId,
+          method: ctx.method,
+          path: ctx.path,
+          tags: ctx.tags,
+          summary: ctx.summary,
+          location: ctx.location,
+          httpStatus: ctx.httpStatus,
+          mediaType: ctx.mediaType,
+          style: '',
+          explode: '',
+          allowReserved: '',
+          schemaName: propSchemaName,
+          variant: variantCtx.variant,
+          variantKind: variantCtx.variantKind,
+          discriminatorValue: variantCtx.discriminatorValue,
+          fieldPath: propPath,
+          fieldName: propName,
+          type: schemaType(propSchema),
+          itemType: '',
+          format: propSchema.format || '',
+          required: yesNo(requiredFields.has(propName)),
+          conditionallyRequired: '',
+          nullable: yesNo(propSchema.nullable),
+          deprecated: yesNo(propSchema.deprecated),
+          readOnly: yesNo(propSchema.readOnly),
+          writeOnly: yesNo(propSchema.writeOnly),
+          additionalProperties: objectOpenness(propSchema),
+          pii: classifyPii(propName, propSchema),
+          description: propSchema.description || '',
+          glossaryTerm: '',
+          glossaryDefinition: '',
+          constraints: buildConstraints(propSchema),
+          constraintDetails: buildConstraintDetails(propSchema),
+          example: formatValue(schemaExample(propSchema)),
+          default: formatValue(propSchema.default),
+          sourceRef: schemaPointer(propSchema) || ctx.sourceRef,
+          recursiveRef: '',
+          issues: ''
+        });
+      }
+
+      attachConflicts(results.slice(firstRow), conflicts, propPath);
+    }
+
+    // Map entries are flattened like array items, under a synthetic {key} segment
+    for (const [segment, valueSchema] of mapEntries(schema)) {
+      const { merged: value, conflicts } = composeAllOf(normalizeSchema(valueSchema));
+      const entryPath = `${fieldPath}${segment}`;
+      const entryCtx = { ...ctx, requiredFields: new Set(value.required || []) };
+      const entryRows = flattenSchema(value, entryPath, entryCtx, getSchemaName(value) || parentSchemaName, variantCtx, new Map(visited));
+      attachConflicts(entryRows, conflicts, entryPath);
+      results.push(...entryRows);
+    }
+
+    return results;
+  }
+
+  // Handle primitive schema at root level (unusual but possible)
+  if (schema.type && !schema.properties && !schema.items) {
+    const fieldName = fieldPath.split('.').pop() || fieldPath || 'value';
+    results.push({
+      operationId: ctx.operationId,
+      method: ctx.method,
+      path: ctx.path,
+      tags: ctx.tags,
+      summary: ctx.summary,
+      location: ctx.location,
+      httpStatus: ctx.httpStatus,
+      mediaType: ctx.mediaType,
+      style: '',
+      explode: '',
+      allowReserved: '',
+      schemaName: parentSchemaName,
+      variant: variantCtx.variant,
+      variantKind: variantCtx.variantKind,
+      discriminatorValue: variantCtx.discriminatorValue,
+      fieldPath: fieldPath,
+      fieldName: fieldName,
+      type: schemaType(schema),
+      itemType: '',
+      format: schema.format || '',
+      required: yesNo(ctx.requiredFields.has(fieldName)),
+      conditionallyRequired: '',
+      nullable: yesNo(schema.nullable),
+      deprecated: yesNo(schema.deprecated),
+      readOnly: yesNo(schema.readOnly),
+      writeOnly: yesNo(schema.writeOnly),
+      additionalProperties: '',
+      pii: classifyPii(fieldName, schema),
+      description: schema.description || '',
+      glossaryTerm: '',
+      glossaryDefinition: '',
+      constraints: buildConstraints(schema),
+      constraintDetails: buildConstraintDetails(schema),
+      example: formatValue(schemaExample(schema)),
+      default: formatValue(schema.default),
+      sourceRef: schemaPointer(schema) || ctx.sourceRef,
+      recursiveRef: '',
+      issues: issues.join('; ')
+    });
+  }
+
+  return results;
+}
+
+function isMapSchema(schema: Schema): boolean {
+  return typeof schema.additionalProperties === 'object' || schema.patternProperties !== undefined;
+}
+
+// Value schemas keyed by their synthetic path segment: `{key}` or `{<pattern>}`
+function mapEntries(schema: Schema): Array<[string, Schema]> {
+  const entries: Array<[string, Schema]> = Object.entries(schema.patternProperties || {})
+    .map(([pattern, value]) => [`{${pattern}}`, value]);
+
+  if (typeof schema.additionalProperties === 'object') {
+    entries.push(['{key}', schema.additionalProperties]);
+  }
+
+  return entries;
+}
+
+/**
+ * Whether an object tolerates members beyond its declared properties:
+ * `open` (custom fields allowed), `closed` (additionalProperties: false)
+ * or `map` (extra members must match a value schema).
+ */
+export function objectOpenness(schema: Schema): string {
+  if (isMapSchema(schema)) return 'map';
+  if (schema.type !== 'object' && !schema.properties) return '';
+  return schema.additionalProperties === false ? 'closed' : 'open';
+}
+
+export function mapValueType(schema: Schema): string {
+  const [, value] = mapEntries(schema)[0] || [];
+  if (!value) return '';
+  const normalized = normalizeSchema(value);
+  return schemaType(normalized) || (normalized.properties ? 'object' : '');
+}
+
+function recursionMarker(
+  schema: Schema,
+  fieldPath: string,
+  ctx: FlattenContext,
+  parentSchemaName: string,
+  variantCtx: VariantContext
+): FieldInstance {
+  const fieldName = fieldPath.split('.').pop() || fieldPath || 'value';
+  const targetName = getSchemaName(schema) || parentSchemaName;
+
+  return {
+    operationId: ctx.operationId,
+    method: ctx.method,
+    path: ctx.path,
+    tags: ctx.tags,
+    summary: ctx.summary,
+    location: ctx.location,
+    httpStatus: ctx.httpStatus,
+    mediaType: ctx.mediaType,
+    style: '',
+    explode: '',
+    allowReserved: '',
+    schemaName: targetName,
+    variant: variantCtx.variant,
+    variantKind: variantCtx.variantKind,
+    discriminatorValue: variantCtx.discriminatorValue,
+    fieldPath,
+    fieldName,
+    type: schemaType(schema) || 'object',
+    itemType: '',
+    format: schema.format || '',
+    required: yesNo(ctx.requiredFields.has(fieldName)),
+    conditionallyRequired: '',
+    nullable: yesNo(schema.nullable),
+    deprecated: yesNo(schema.deprecated),
+    readOnly: yesNo(schema.readOnly),
+    writeOnly: yesNo(schema.writeOnly),
+    additionalProperties: '',
+    pii: classifyPii(fieldName, schema),
+    description: schema.description || '',
+    glossaryTerm: '',
+    glossaryDefinition: '',
+    constraints: buildConstraints(schema),
+    constraintDetails: buildConstraintDetails(schema),
+    example: '',
+    default: '',
+    sourceRef: schemaPointer(schema) || ctx.sourceRef,
+    recursiveRef: targetName,
+    issues: `recursive reference to ${targetName}, not expanded beyond depth ${ctx.recursionDepth}`
+  };
+}
+
+function variantName(branch: Schema, index: number): string {
+  const match = schemaPointer(branch).match(/^#\/components\/schemas\/([^/]+)$/);
+  if (match) return unescapePointerSegment(match[1]);
+
+  return branch.title || `variant${index + 1}`;
+}
+
+function nestVariant(outer: VariantContext, inner: VariantContext): VariantContext {
+  const join = (a: string, b: string) => [a, b].filter(Boolean).join('|');
+  return {
+    variant: join(outer.variant, inner.variant),
+    variantKind: join(outer.variantKind, inner.variantKind),
+    discriminatorValue: join(outer.discriminatorValue, inner.discriminatorValue)
+  };
+}
+
+// Branches like `{ required: [dollar] }` only select which sibling properties apply
+function isConstraintOnlyBranch(branch: Schema): boolean {
+  return !branch.type && !branch.properties && !branch.items && !branch.allOf && !branch.oneOf && !branch.anyOf;
+}
+
+// Marks the base rows a constraint-only branch requires, e.g. `oneOf variant1 (percentage absent)`
+function noteBranchRequirements(rows: FieldInstance[], fieldPath: string, branch: Schema, branchLabel: string): void {
+  const absent = branch.not?.required || [];
+  const note = absent.length > 0 ? `${branchLabel} (${absent.join(', ')} absent)` : branchLabel;
+
+  for (const name of branch.required || []) {
+    const propPath = fieldPath ? `${fieldPath}.${name}` : name;
+    for (const row of rows) {
+      if (row.fieldPath !== propPath) continue;
+      row.conditionallyRequired = row.conditionallyRequired ? `${row.conditionallyRequired}; ${note}` : note;
+    }
+  }
+}
+
+/**
+ * Resolves the value that selects a branch: the explicit discriminator
+ * mapping, the implicit schema-name value, or a `const` property that
+ * every branch defines.
+ */
+function discriminatorValueFor(union: Schema, branches: Schema[], branch: Schema, branchName: string): string {
+  const propertyName = union.discriminator?.propertyName || implicitDiscriminator(branches);
+  if (!propertyName) return '';
+
+  const mapped = Object.entries(union.discriminator?.mapping || {})
+    .find(([, ref]) => ref.split('/').pop() === branchName);
+  if (mapped) return `${propertyName}=${mapped[0]}`;
+
+  const property = branchProperties(branch)[propertyName];
+  if (property?.const !== undefined) return `${propertyName}=${formatValue(property.const)}`;
+  if (property?.enum?.length === 1) return `${propertyName}=${property.enum[0]}`;
+
+  return union.discriminator ? `${propertyName}=${branchName}` : '';
+}
+
+function implicitDiscriminator(branches: Schema[]): string {
+  const [first, ...rest] = branches;
+  const candidates = Object.entries(first ? branchProperties(first) : {})
+    .filter(([, property]) => property.const !== undefined)
+    .map(([name]) => name);
+
+  return candidates.find(name => rest.every(branch => branchProperties(branch)[name]?.const !== undefined)) || '';
+}
+
+// Properties declared directly on a branch or contributed by its allOf parts
+function branchProperties(branch: Schema): Record<string, Schema> {
+  return Object.assign({}, ...(branch.allOf || []).map(branchProperties), branch.properties);
+}
+
+export function buildVariantMatrix(fieldInstances: FieldInstance[]): Array<Record<string, string>> {
+  const rows = new Map<string, Record<string, string>>();
+
+  for (const field of fieldInstances) {
+    if (!field.variant) continue;
+
+    const key = [field.operationId, field.location, field.httpStatus, field.mediaType, field.fieldPath].join('\u0000');
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        operationId: field.operationId,
+        location: field.location,
+        httpStatus: field.httpStatus,
+        fieldPath: field.fieldPath
+      };
+      rows.set(key, row);
+    }
+    row[field.variant] = field.discriminatorValue ? `X (${field.discriminatorValue})` : 'X';
+  }
+
+  return [...rows.values()];
+}
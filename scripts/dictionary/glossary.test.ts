@@ -0,0 +1,52 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { attachGlossary, matchGlossary } from './glossary';
+import type { FieldInstance, GlossaryTerm } from './types';
+
+const glossary: GlossaryTerm[] = [
+  { term: 'party', definition: 'A person or organization.', synonyms: ['customer'] },
+  { term: 'policyNumber', definition: 'Unique identifier of the policy.', synonyms: ['contractNumber'] }
+];
+
+function field(fieldName: string, type = 'string'): FieldInstance {
+  return { fieldName, type, glossaryTerm: '', glossaryDefinition: '' } as FieldInstance;
+}
+
+describe('matchGlossary', () => {
+  test('matches terms exactly and synonyms case-insensitively', () => {
+    assert.deepEqual(matchGlossary(field('policyNumber'), glossary), { term: glossary[1], synonym: false, plural: false });
+    assert.deepEqual(matchGlossary(field('ContractNumber'), glossary), { term: glossary[1], synonym: true, plural: false });
+    assert.equal(matchGlossary(field('policynumber'), glossary), undefined);
+  });
+
+  test('matches arrays by their singular name', () => {
+    assert.deepEqual(matchGlossary(field('parties', 'array'), glossary), { term: glossary[0], synonym: false, plural: true });
+    assert.deepEqual(matchGlossary(field('customers', 'array'), glossary), { term: glossary[0], synonym: true, plural: true });
+    assert.equal(matchGlossary(field('parties'), glossary), undefined);
+  });
+
+  test('strips the suffix of primitive array fields', () => {
+    assert.equal(matchGlossary(field('policyNumber[]', 'array'), glossary)?.term, glossary[1]);
+  });
+});
+
+describe('attachGlossary', () => {
+  test('sets the term and definition on fields named after a term, plural or synonym', () => {
+    const fields = [field('parties', 'array'), field('customer', 'object'), field('status')];
+    attachGlossary(fields, glossary);
+
+    assert.deepEqual(fields.map(f => f.glossaryTerm), ['party', 'party', '']);
+    assert.deepEqual(fields.map(f => f.glossaryDefinition), ['A person or organization.', 'A person or organization.', '']);
+  });
+
+  test('keeps terms that share a definition apart', () => {
+    const shared: GlossaryTerm[] = [
+      { term: 'issueDate', definition: 'Date the policy was issued.' },
+      { term: 'policyDate', definition: 'Date the policy was issued.' }
+    ];
+    const fields = [field('issueDate'), field('policyDate')];
+    attachGlossary(fields, shared);
+
+    assert.deepEqual(fields.map(f => f.glossaryTerm), ['issueDate', 'policyDate']);
+  });
+});
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import type { FieldInstance, GlossaryTerm } from './types';
+
+export interface GlossaryMatch {
+  term: GlossaryTerm;
+  // Named after one of the term's synonyms rather than the term itself
+  synonym: boolean;
+  // An array named with the plural of the term, e.g. `parties` for `party`
+  plural: boolean;
+}
+
+export function loadGlossary(file: string): GlossaryTerm[] {
+  const { terms } = JSON.parse(fs.readFileSync(file, 'utf8')) as { terms?: GlossaryTerm[] };
+  if (!Array.isArray(terms)) throw new Error(`Glossary ${file} has no "terms" array`);
+  return terms;
+}
+
+function singularForms(name: string): string[] {
+  return [
+    name.replace(/ies$/, 'y'),
+    name.replace(/(ss|x|z|ch|sh)es$/, '$1'),
+    name.replace(/s$/, '')
+  ].filter(form => form !== name);
+}
+
+/**
+ * Finds the glossary term a field is named after. Terms match exactly and
+ * synonyms case-insensitively; arrays also match by their singular name.
+ */
+export function matchGlossary(field: FieldInstance, glossary: GlossaryTerm[]): GlossaryMatch | undefined {
+  const name = field.fieldName.replace(/\[\]$/, '');
+  const candidates: Array<[string, boolean]> = [
+    [name, false],
+    ...(field.type === 'array' ? singularForms(name).map(form => [form, true] as [string, boolean]) : [])
+  ];
+
+  for (const [candidate, plural] of candidates) {
+    const exact = glossary.find(term => term.term === candidate);
+    if (exact) return { term: exact, synonym: false, plural };
+
+    const lower = candidate.toLowerCase();
+    const bySynonym = glossary.find(term => (term.synonyms || []).some(synonym => synonym.toLowerCase() === lower));
+    if (bySynonym) return { term: bySynonym, synonym: true, plural };
+  }
+  return undefined;
+}
+
+// Fills the Glossary Term and Definition columns of every field named after a glossary term or synonym
+export function attachGlossary(fieldInstances: FieldInstance[], glossary: GlossaryTerm[]): void {
+  if (glossary.length === 0) return;
+  for (const field of fieldInstances) {
+    const match = matchGlossary(field, glossary);
+    if (!match) continue;
+    field.glossaryTerm = match.term.term;
+    field.glossaryDefinition = match.term.definition;
+  }
+}
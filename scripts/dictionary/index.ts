@@ -0,0 +1,38 @@
+/**
+ * Data dictionary library
+ *
+ * `buildDictionary` turns an OpenAPI 3.x document into the flattened model
+ * (field instances, endpoints, schemas, ...) without writing anything; the
+ * writers turn a model into JSON, XLSX, CSV/TSV, Markdown and the HTML viewer.
+ *
+ *   const model = await buildDictionary('docs/specs/appstatusv1.yaml');
+ *   model.fieldInstances.filter(f => f.location === 'request_body');
+ */
+
+export { buildDictionary } from './build';
+export { buildVariantMatrix } from './flatten';
+export { formatViolation, lintFields, LINT_RULES } from './lint';
+export { attachGlossary, loadGlossary, matchGlossary } from './glossary';
+export { resolveSpecFiles, specKeyOf } from './spec-files';
+export { serveOutput } from './serve';
+export * from './writers';
+export type {
+  BuildOptions,
+  BusinessRule,
+  ConstraintDetails,
+  DictionaryModel,
+  EndpointSummary,
+  ExampleSummary,
+  FieldInstance,
+  GlossaryTerm,
+  LintContext,
+  LintOptions,
+  LintRule,
+  LintSeverity,
+  LintViolation,
+  OpenAPISpec,
+  SchemaSummary,
+  SecuritySchemeSummary,
+  SpecWriter,
+  WriterContext
+} from './types';
@@ -0,0 +1,199 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDictionary } from './build';
+import type { BuildOptions, OpenAPISpec, Schema } from './types';
+
+// Lint results for a single `GET /v1/things` returning `schema`
+async function lintResponse(schema: Schema, options: BuildOptions = {}, components: Record<string, Schema> = {}) {
+  const spec: OpenAPISpec = {
+    openapi: '3.1.0',
+    info: { title: 'Things', version: '1.0.0' },
+    paths: {
+      '/v1/things': {
+        get: {
+          operationId: 'listThings',
+          responses: { '200': { description: 'OK', content: { 'application/json': { schema } } } }
+        }
+      }
+    },
+    components: { schemas: components }
+  };
+  const model = await buildDictionary(spec, options);
+  return model.lintViolations.map(v => `${v.ruleId} ${v.fieldPath}: ${v.hint}`);
+}
+
+describe('naming rules', () => {
+  test('booleans need an is/has prefix', async () => {
+    const violations = await lintResponse({
+      type: 'object',
+      properties: { activeFlag: { type: 'boolean' }, isactive: { type: 'boolean' }, hasChildren: { type: 'boolean' } }
+    });
+
+    assert.deepEqual(violations, [
+      'naming/boolean-prefix activeFlag: rename to isActive',
+      'naming/boolean-prefix isactive: rename to isActive'
+    ]);
+  });
+
+  test('arrays need a plural name', async () => {
+    const violations = await lintResponse({
+      type: 'object',
+      properties: {
+        payee: { type: 'array', items: { type: 'string' } },
+        addresses: { type: 'array', items: { type: 'string' } },
+        data: { type: 'array', items: { type: 'string' } }
+      }
+    });
+
+    assert.deepEqual(violations, ['naming/array-plural payee: rename to payees']);
+  });
+
+  test('array items from a named schema should be singular', async () => {
+    const violations = await lintResponse(
+      { type: 'object', properties: { things: { type: 'array', items: { $ref: '#/components/schemas/Things' } } } },
+      { lint: { envelopeAllowlist: ['listThings'] } },
+      { Things: { type: 'object', properties: { thingId: { type: 'string' } } } }
+    );
+
+    assert.deepEqual(violations, ['naming/array-item-singular things: rename the schema to Thing']);
+  });
+});
+
+describe('security rules', () => {
+  test('PII is flagged in query parameters', async () => {
+    const model = await buildDictionary({
+      openapi: '3.1.0',
+      info: { title: 'Parties', version: '1.0.0' },
+      paths: {
+        '/v1/parties': {
+          get: {
+            operationId: 'searchParties',
+            parameters: [
+              { name: 'lastName', in: 'query', schema: { type: 'string' } },
+              { name: 'status', in: 'query', schema: { type: 'string' } }
+            ],
+            responses: { '204': { description: 'No content' } }
+          }
+        }
+      }
+    });
+
+    assert.deepEqual(model.lintViolations.map(v => `${v.ruleId} ${v.fieldPath}`), ['security/pii-in-query lastName']);
+  });
+});
+
+describe('response/envelope', () => {
+  const paged = {
+    type: 'object',
+    properties: {
+      things: { type: 'array', items: { type: 'object', properties: { thingId: { type: 'string' } } } },
+      totalCount: { type: 'integer' }
+    }
+  };
+
+  test('flags a payload wrapped with paging metadata', async () => {
+    const violations = await lintResponse({ $ref: '#/components/schemas/PagedThings' }, {}, { PagedThings: paged });
+
+    assert.deepEqual(violations, [
+      'response/envelope things: return "things" as the body and move totalCount to response headers, or add PagedThings to the envelope allowlist'
+    ]);
+  });
+
+  test('accepts an allowlisted wrapper schema or operation', async () => {
+    const bySchema = { lint: { envelopeAllowlist: ['PagedThings'] } };
+    const byOperation = { lint: { envelopeAllowlist: ['listThings'] } };
+
+    assert.deepEqual(await lintResponse({ $ref: '#/components/schemas/PagedThings' }, bySchema, { PagedThings: paged }), []);
+    assert.deepEqual(await lintResponse({ $ref: '#/components/schemas/PagedThings' }, byOperation, { PagedThings: paged }), []);
+  });
+
+  test('accepts an allowlisted wrapper with no other members', async () => {
+    const wrapper = { ThingsResult: { type: 'object', properties: { things: paged.properties.things } } };
+    const allowlisted = { lint: { envelopeAllowlist: ['ThingsResult'] } };
+
+    assert.deepEqual(await lintResponse({ $ref: '#/components/schemas/ThingsResult' }, {}, wrapper), [
+      'response/envelope things: return "things" as the body, or add ThingsResult to the envelope allowlist'
+    ]);
+    assert.deepEqual(await lintResponse({ $ref: '#/components/schemas/ThingsResult' }, allowlisted, wrapper), []);
+  });
+
+  test('ignores the row of a constrained root object', async () => {
+    const violations = await lintResponse({ ...paged, minProperties: 1 }, { lint: { envelopeAllowlist: [] } });
+    assert.deepEqual(violations.map(v => v.split(':')[0]), ['response/envelope things']);
+  });
+
+  test('takes paging positions, but not business fields that end in count or index, for metadata', async () => {
+    const withSibling = (name: string) => ({ ...paged, properties: { things: paged.properties.things, [name]: { type: 'number' } } });
+
+    for (const name of ['totalAvailableItemsCount', 'startIndex', 'nextCursor']) {
+      assert.equal((await lintResponse(withSibling(name))).length, 1, name);
+    }
+    for (const name of ['discount', 'accountCount', 'priceIndex']) {
+      assert.deepEqual(await lintResponse(withSibling(name)), [], name);
+    }
+  });
+
+  test('leaves objects with several structured members alone', async () => {
+    const violations = await lintResponse({
+      type: 'object',
+      properties: {
+        owner: { type: 'object', properties: { ownerId: { type: 'string' } } },
+        things: { type: 'array', items: { type: 'string' } }
+      }
+    });
+
+    assert.deepEqual(violations, []);
+  });
+});
+
+describe('glossary rules', () => {
+  const glossary = [
+    { term: 'producerNumber', definition: 'Producer identifier.', type: 'string', synonyms: ['agentNumber'] },
+    { term: 'party', definition: 'A person or organization.', type: 'object', synonyms: ['customer'] }
+  ];
+
+  test('flags synonyms with the canonical name, plural for arrays', async () => {
+    const violations = await lintResponse({
+      type: 'object',
+      properties: {
+        agentNumber: { type: 'string' },
+        customers: { type: 'array', items: { type: 'object', properties: { partyId: { type: 'string' } } } }
+      }
+    }, { glossary });
+
+    assert.deepEqual(violations, [
+      'glossary/synonym agentNumber: rename to producerNumber',
+      'glossary/synonym customers: rename to parties'
+    ]);
+  });
+
+  test('flags a canonical name with another type', async () => {
+    const violations = await lintResponse({
+      type: 'object',
+      properties: { producerNumber: { type: 'integer' }, parties: { type: 'array', items: { type: 'string' } } }
+    }, { glossary });
+
+    assert.deepEqual(violations, [
+      'glossary/type parties: align the schema with the glossary definition',
+      'glossary/type producerNumber: align the schema with the glossary definition'
+    ]);
+  });
+
+  test('attaches the definition to matching fields', async () => {
+    const model = await buildDictionary({
+      openapi: '3.1.0',
+      info: { title: 'Producers', version: '1.0.0' },
+      paths: {
+        '/v1/producers/{producerNumber}': {
+          get: {
+            operationId: 'getProducer',
+            parameters: [{ name: 'producerNumber', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { '204': { description: 'No content' } }
+          }
+        }
+      }
+    }, { glossary });
+
+    assert.equal(model.fieldInstances[0].glossaryDefinition, 'Producer identifier.');
+  });
+});
@@ -0,0 +1,261 @@
+import type { FieldInstance, LintContext, LintOptions, LintRule, LintViolation } from './types';
+import { matchGlossary } from './glossary';
+
+// Header names follow HTTP conventions rather than the field naming rules
+const HEADER_LOCATIONS = new Set(['header_param', 'response_header']);
+
+// Scalar properties that describe a response rather than belong to the resource
+const RESPONSE_METADATA = /^(correlationid|requestid|traceid|count|total|offset|limit|page|pagesize|pagenumber|cursor|next|previous|links|meta|metadata)$/;
+
+// Paging positions such as `totalAvailableItemsCount` or `startIndex`: a position word qualified only
+// by paging words, so a business field such as `discount` or `accountCount` is not taken for metadata
+const PAGING_POSITIONS = new Set(['count', 'index', 'offset', 'cursor']);
+const PAGING_QUALIFIERS = new Set(['total', 'available', 'item', 'items', 'result', 'results', 'record', 'records', 'page', 'start', 'end', 'next', 'prev', 'previous']);
+
+// Nouns that name a collection without a trailing "s"
+const COLLECTIVE_NOUNS = new Set(['children', 'criteria', 'data', 'information', 'media', 'metadata', 'people']);
+
+function wordsOf(name: string): string[] {
+  return (name.match(/[A-Z]?[a-z0-9]+|[A-Z]+(?![a-z])/g) || [name]).map(word => word.toLowerCase());
+}
+
+function lastWord(name: string): string {
+  return wordsOf(name).slice(-1)[0];
+}
+
+function isResponseMetadata(name: string): boolean {
+  if (RESPONSE_METADATA.test(name.toLowerCase())) return true;
+  const words = wordsOf(name);
+  const position = words.pop()!;
+  return PAGING_POSITIONS.has(position) && words.length > 0 && words.every(word => PAGING_QUALIFIERS.has(word));
+}
+
+function isPlural(name: string): boolean {
+  const word = lastWord(name);
+  return COLLECTIVE_NOUNS.has(word) || (/s$/.test(word) && !/(ss|us|is)$/.test(word));
+}
+
+function pluralize(name: string): string {
+  if (/[^aeiou]y$/.test(name)) return `${name.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/.test(name)) return `${name}es`;
+  return `${name}s`;
+}
+
+function isStructured(field: FieldInstance): boolean {
+  return field.type === 'object' || field.type === 'array';
+}
+
+// Response schema root properties belong to, from the first `#/components/schemas/<name>/properties/...` source
+function rootSchemaName(fields: FieldInstance[]): string {
+  for (const field of fields) {
+    const match = field.sourceRef.match(/^#\/components\/schemas\/([^/]+)\/properties\//);
+    if (match) return match[1];
+  }
+  return '';
+}
+
+function singularize(name: string): string {
+  if (/ies$/.test(name)) return `${name.slice(0, -3)}y`;
+  if (/(ss|x|z|ch|sh)es$/.test(name)) return name.slice(0, -2);
+  return name.replace(/s$/, '');
+}
+
+// Conventions from the README's "Style Conventions" section
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'naming/boolean-prefix',
+    severity: 'error',
+    description: 'Booleans are prefixed with is or has',
+    check(field) {
+      if (field.type !== 'boolean' || /^(is|has)[A-Z0-9]/.test(field.fieldName)) return undefined;
+      // "isactive" only lacks the capital; "activeFlag" gets a new prefix
+      const [, prefix = 'is', rest] = field.fieldName.match(/^(is|has)?(.*)$/)!;
+      const stem = rest.replace(/(Flag|Indicator|Ind)$/, '') || rest;
+      return {
+        message: `boolean "${field.fieldName}" is not prefixed with is or has`,
+        hint: `rename to ${prefix}${stem.charAt(0).toUpperCase()}${stem.slice(1)}`
+      };
+    }
+  },
+  {
+    id: 'naming/array-plural',
+    severity: 'error',
+    description: 'Arrays are named with a plural noun',
+    check(field) {
+      if (field.type !== 'array' || isPlural(field.fieldName)) return undefined;
+      return {
+        message: `array "${field.fieldName}" is not a plural noun`,
+        hint: `rename to ${pluralize(field.fieldName)}`
+      };
+    }
+  },
+  {
+    id: 'naming/array-item-singular',
+    severity: 'warning',
+    description: 'Array items from a named schema use a singular noun',
+    check(field, context) {
+      if (field.type !== 'array') return undefined;
+      // Item properties carry the item schema's name when it differs from the array's own schema
+      const itemSchema = context.childrenOf(field).find(child => child.schemaName !== field.schemaName)?.schemaName;
+      if (!itemSchema || !isPlural(itemSchema)) return undefined;
+      return {
+        message: `items of "${field.fieldName}" use plural schema name ${itemSchema}`,
+        hint: `rename the schema to ${singularize(itemSchema)}`
+      };
+    }
+  },
+  {
+    id: 'response/envelope',
+    severity: 'error',
+    description: 'Success responses are the resource or array itself, not wrapped in an object',
+    check(field, context) {
+      const isRootProperty = field.location === 'response_body' && /^[^.[]+$/.test(field.fieldPath);
+      if (!isRootProperty || !field.httpStatus.startsWith('2') || !isStructured(field)) return undefined;
+
+      // The field must be the only structured root property; the rest can only be paging/tracing metadata
+      const others = context.siblingsOf(field).filter(sibling => sibling !== field);
+      if (others.some(sibling => isStructured(sibling) || !isResponseMetadata(sibling.fieldName))) {
+        return undefined;
+      }
+
+      // The field itself counts, since a pure wrapper such as `ThingsResult { things }` has no siblings
+      const schemaName = rootSchemaName([field, ...others]);
+      const allowlist = context.options.envelopeAllowlist ?? [];
+      if (allowlist.includes(field.operationId) || (schemaName && allowlist.includes(schemaName))) return undefined;
+
+      const wrapper = schemaName ? ` in ${schemaName}` : '';
+      const metadata = others.map(sibling => sibling.fieldName);
+      return {
+        message: `${field.httpStatus} response wraps ${field.type} "${field.fieldName}"${wrapper} instead of returning the ${field.type === 'array' ? 'array' : 'resource'} itself`,
+        hint: metadata.length > 0
+          ? `return "${field.fieldName}" as the body and move ${metadata.join(', ')} to response headers, or add ${schemaName || field.operationId} to the envelope allowlist`
+          : `return "${field.fieldName}" as the body, or add ${schemaName || field.operationId} to the envelope allowlist`
+      };
+    }
+  },
+  {
+    id: 'glossary/synonym',
+    severity: 'error',
+    description: 'Fields use the canonical glossary term, not a synonym',
+    check(field, context) {
+      const match = matchGlossary(field, context.options.glossary ?? []);
+      if (!match?.synonym) return undefined;
+      const canonical = match.plural ? pluralize(match.term.term) : match.term.term;
+      return {
+        message: `"${field.fieldName}" is a synonym of the glossary term ${match.term.term}`,
+        hint: `rename to ${canonical}`
+      };
+    }
+  },
+  {
+    id: 'glossary/type',
+    severity: 'error',
+    description: 'Fields named after a glossary term have its type, format and pattern',
+    check(field, context) {
+      const match = matchGlossary(field, context.options.glossary ?? []);
+      if (!match || match.synonym) return undefined;
+
+      const { term } = match;
+      const actual = {
+        type: match.plural ? field.itemType : field.type,
+        format: field.format,
+        pattern: String(field.constraintDetails.pattern ?? '')
+      };
+      const mismatches = (['type', 'format', 'pattern'] as const)
+        .filter(key => term[key] && actual[key] && term[key] !== actual[key])
+        .map(key => `${key} ${actual[key]} (expected ${term[key]})`);
+      if (mismatches.length === 0) return undefined;
+
+      return {
+        message: `"${field.fieldName}" differs from the glossary term ${term.term}: ${mismatches.join(', ')}`,
+        hint: 'align the schema with the glossary definition'
+      };
+    }
+  },
+  {
+    id: 'security/pii-in-query',
+    severity: 'error',
+    description: 'Query string parameters carry no PII',
+    check(field) {
+      if (field.location !== 'query_param' || !field.pii) return undefined;
+      return {
+        message: `query parameter "${field.fieldPath}" carries PII (${field.pii})`,
+        hint: 'send it in the body of a POST search or in a header'
+      };
+    }
+  },
+  {
+    id: 'security/pii-in-path',
+    severity: 'warning',
+    description: 'Path parameters carry no PII',
+    check(field) {
+      if (field.location !== 'path_param' || !field.pii) return undefined;
+      return {
+        message: `path parameter "${field.fieldPath}" carries PII (${field.pii})`,
+        hint: 'address the resource by an opaque identifier'
+      };
+    }
+  }
+];
+
+function scopeOf(field: FieldInstance): string {
+  return [field.operationId, field.method, field.path, field.location, field.httpStatus, field.mediaType, field.variant].join('\u0000');
+}
+
+// '' for root-level properties
+function parentPath(fieldPath: string): string {
+  const match = fieldPath.match(/^(.*?)(?:\[\])?\.[^.]+$/);
+  return match ? match[1] : '';
+}
+
+export function formatViolation(violation: Pick<LintViolation, 'ruleId' | 'severity' | 'message' | 'hint'>): string {
+  return `[${violation.ruleId}] ${violation.severity}: ${violation.message} (${violation.hint})`;
+}
+
+/**
+ * Runs every rule against the flattened fields. Violations are returned and
+ * also appended to each field's Issues column.
+ */
+export function lintFields(
+  fieldInstances: FieldInstance[],
+  options: LintOptions = {},
+  rules: LintRule[] = LINT_RULES
+): LintViolation[] {
+  const children = new Map<string, FieldInstance[]>();
+  for (const field of fieldInstances) {
+    // A body's root row is not a sibling of its properties
+    if (!field.fieldPath) continue;
+    const key = `${scopeOf(field)}\u0000${parentPath(field.fieldPath)}`;
+    children.set(key, [...(children.get(key) ?? []), field]);
+  }
+  const context: LintContext = {
+    childrenOf: field => children.get(`${scopeOf(field)}\u0000${field.fieldPath}`) ?? [],
+    siblingsOf: field => children.get(`${scopeOf(field)}\u0000${parentPath(field.fieldPath)}`) ?? [field],
+    options
+  };
+
+  const violations: LintViolation[] = [];
+  for (const field of fieldInstances) {
+    if (!field.fieldName || HEADER_LOCATIONS.has(field.location)) continue;
+
+    for (const rule of rules) {
+      const finding = rule.check(field, context);
+      if (!finding) continue;
+
+      const violation: LintViolation = {
+        ruleId: rule.id,
+        severity: rule.severity,
+        ...finding,
+        operationId: field.operationId,
+        method: field.method,
+        path: field.path,
+        location: field.location,
+        httpStatus: field.httpStatus,
+        fieldPath: field.fieldPath
+      };
+      violations.push(violation);
+      field.issues = field.issues ? `${field.issues}; ${formatViolation(violation)}` : formatViolation(violation);
+    }
+  }
+  return violations;
+}
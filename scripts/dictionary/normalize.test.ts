@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeSchema, schemaType } from './normalize';
+
+describe('normalizeSchema', () => {
+  test('folds a type array with "null" into a nullable type', () => {
+    assert.deepEqual(normalizeSchema({ type: ['string', 'null'], maxLength: 5 }), { type: 'string', maxLength: 5, nullable: true });
+  });
+
+  test('joins several non-null types', () => {
+    assert.equal(schemaType({ type: ['string', 'integer'] }), 'string | integer');
+  });
+
+  test('collapses a oneOf with a null branch, keeping wrapper annotations', () => {
+    const normalized = normalizeSchema({
+      description: 'Optional date',
+      oneOf: [{ type: 'string', format: 'date' }, { type: 'null' }]
+    });
+
+    assert.deepEqual(normalized, { type: 'string', format: 'date', description: 'Optional date', nullable: true });
+  });
+
+  test('keeps the other branches of a wider anyOf', () => {
+    const normalized = normalizeSchema({ anyOf: [{ type: 'string' }, { type: 'integer' }, { type: 'null' }] });
+
+    assert.deepEqual(normalized.anyOf, [{ type: 'string' }, { type: 'integer' }]);
+    assert.equal(normalized.nullable, true);
+  });
+
+  test('treats const: null as a null type', () => {
+    assert.deepEqual(normalizeSchema({ const: null }), { const: null, type: 'null', nullable: true });
+  });
+
+  test('returns the same object for a schema without null', () => {
+    const schema = { type: 'string' };
+    assert.equal(normalizeSchema(schema), schema);
+  });
+});
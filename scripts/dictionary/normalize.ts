@@ -0,0 +1,74 @@
+import type { Schema } from './types';
+import { inheritPointer } from './pointers';
+
+// Normalized view of each schema, keyed by the original object so that
+// identity-based bookkeeping (names, recursion guard) keeps working.
+const normalizedSchemaCache = new WeakMap<Schema, Schema>();
+
+function isNullSchema(schema: Schema): boolean {
+  if (schema.type === 'null' || schema.const === null) return true;
+  return Array.isArray(schema.type) && schema.type.length > 0 && schema.type.every(t => t === 'null');
+}
+
+/**
+ * Folds the OpenAPI 3.1 ways of expressing null (`type: [x, "null"]`,
+ * `oneOf`/`anyOf` with a `{type: "null"}` branch, `const: null`) into a
+ * single string `type` plus the 3.0-style `nullable` flag.
+ */
+export function normalizeSchema(schema: Schema): Schema {
+  const cached = normalizedSchemaCache.get(schema);
+  if (cached) return cached;
+
+  let normalized = schema;
+
+  if (Array.isArray(schema.type)) {
+    const nonNullTypes = schema.type.filter(t => t !== 'null');
+    normalized = {
+      ...schema,
+      type: nonNullTypes.length > 0 ? nonNullTypes.join(' | ') : 'null',
+      nullable: schema.nullable || nonNullTypes.length < schema.type.length
+    };
+  } else if (schema.const === null) {
+    normalized = { ...schema, type: 'null', nullable: true };
+  } else {
+    for (const keyword of ['oneOf', 'anyOf'] as const) {
+      const branches = schema[keyword];
+      if (!branches || !branches.some(isNullSchema)) continue;
+
+      const nonNullBranches = branches.filter(branch => !isNullSchema(branch));
+      if (nonNullBranches.length === 1) {
+        // Collapse `X | null` to X, keeping annotations from the wrapper
+        const { [keyword]: _union, ...wrapper } = schema;
+        const inner = normalizeSchema(nonNullBranches[0]);
+        normalized = { ...inner, ...definedOnly(wrapper), nullable: true };
+      } else {
+        normalized = { ...schema, [keyword]: nonNullBranches, nullable: true };
+      }
+      break;
+    }
+  }
+
+  if (normalized !== schema) {
+    inheritPointer(normalized, normalized.properties ? nonNullSource(schema) : schema);
+  }
+
+  normalizedSchemaCache.set(schema, normalized);
+  return normalized;
+}
+
+// A collapsed `X | null` union points at X when X is the structured part
+function nonNullSource(schema: Schema): Schema {
+  const branches = schema.oneOf || schema.anyOf || [];
+  return branches.find(branch => !isNullSchema(branch)) || schema;
+}
+
+export function definedOnly<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as T;
+}
+
+export function schemaType(schema: Schema): string {
+  const { type } = normalizeSchema(schema);
+  return typeof type === 'string' ? type : '';
+}
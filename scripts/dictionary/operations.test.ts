@@ -0,0 +1,274 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDictionary } from './build';
+import type { OpenAPISpec, Operation } from './types';
+
+// Builds a spec holding one POST /v1/withdrawals operation
+function withdrawals(operation: Partial<Operation>, spec: Partial<OpenAPISpec> = {}) {
+  return buildDictionary({
+    openapi: '3.1.0',
+    info: { title: 'Withdrawals', version: '1.0.0' },
+    ...spec,
+    paths: {
+      '/v1/withdrawals': {
+        post: { operationId: 'submitWithdrawal', responses: { '204': { description: 'Submitted' } }, ...operation }
+      },
+      ...spec.paths
+    }
+  });
+}
+
+describe('business rules', () => {
+  const operation: Partial<Operation> = {
+    'x-business-rule': {
+      rmd: { when: { transactionSubType: 'rmd' }, require: ['$.rmdInfo', '$.funds[*].fundId'] },
+      nonRmd: {
+        when: { transactionSubType: { not: { in: ['rmd'] } } },
+        constraints: [{ name: 'forbid-rmdInfo', description: 'rmdInfo must be omitted.', assert: '$.rmdInfo == null' }]
+      }
+    },
+    requestBody: {
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              transactionSubType: { type: 'string' },
+              rmdInfo: { type: 'object', properties: { year: { type: 'integer' } } },
+              funds: { type: 'array', items: { type: 'object', properties: { fundId: { type: 'string' } } } }
+            }
+          }
+        }
+      }
+    }
+  };
+
+  test('lists each require target and constraint with its condition', async () => {
+    const { businessRules } = await withdrawals(operation);
+
+    assert.deepEqual(businessRules.map(rule => [rule.ruleName, rule.kind, rule.condition, rule.target, rule.description, rule.assertion]), [
+      ['rmd', 'require', 'transactionSubType == rmd', '$.rmdInfo', 'rmdInfo is required', ''],
+      ['rmd', 'require', 'transactionSubType == rmd', '$.funds[*].fundId', 'funds[].fundId is required', ''],
+      ['nonRmd', 'constraint', 'transactionSubType not in [rmd]', 'forbid-rmdInfo', 'rmdInfo must be omitted.', '$.rmdInfo == null']
+    ]);
+  });
+
+  test('marks the targeted request fields as conditionally required', async () => {
+    const { fieldInstances } = await withdrawals(operation);
+    const conditional = Object.fromEntries(fieldInstances.map(field => [field.fieldPath, field.conditionallyRequired]));
+
+    assert.equal(conditional.rmdInfo, 'transactionSubType == rmd (rmd)');
+    assert.equal(conditional['funds[].fundId'], 'transactionSubType == rmd (rmd)');
+    assert.equal(conditional.transactionSubType, '');
+  });
+});
+
+describe('examples', () => {
+  const operation: Partial<Operation> = {
+    requestBody: {
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              amount: { type: 'number', example: 1 },
+              reason: { type: 'string' },
+              funds: { type: 'array', items: { type: 'object', properties: { fundId: { type: 'string' } } } },
+              tags: { type: 'array', items: { type: 'string' } }
+            }
+          },
+          examples: {
+            Partial_Example: {
+              summary: 'Partial withdrawal',
+              value: { amount: 250, reason: 'HARDSHIP', funds: [{ fundId: 'FUND1' }, { fundId: 'FUND2' }], tags: ['a', 'b'] }
+            },
+            Remote_Example: { externalValue: 'https://example.com/withdrawal.json' }
+          }
+        }
+      }
+    }
+  };
+
+  test('lists named examples by operation and name', async () => {
+    const { examples } = await withdrawals(operation);
+
+    assert.deepEqual(examples.map(example => [example.operationId, example.location, example.exampleName, example.summary, example.externalValue]), [
+      ['submitWithdrawal', 'request_body', 'Partial_Example', 'Partial withdrawal', ''],
+      ['submitWithdrawal', 'request_body', 'Remote_Example', '', 'https://example.com/withdrawal.json']
+    ]);
+    assert.deepEqual(JSON.parse(examples[0].value).funds, [{ fundId: 'FUND1' }, { fundId: 'FUND2' }]);
+  });
+
+  test('fills empty example cells from the payloads, through arrays, keeping schema examples', async () => {
+    const { fieldInstances } = await withdrawals(operation);
+    const example = Object.fromEntries(fieldInstances.map(field => [field.fieldPath, field.example]));
+
+    assert.equal(example.amount, '1');
+    assert.equal(example.reason, 'HARDSHIP');
+    assert.equal(example['funds[].fundId'], 'FUND1');
+    assert.equal(example.tags, '["a","b"]');
+  });
+});
+
+describe('headers, links, callbacks and webhooks', () => {
+  const model = withdrawals(
+    {
+      responses: {
+        '202': {
+          description: 'Accepted',
+          headers: {
+            'Content-Type': { schema: { type: 'string' } },
+            'X-Correlation-ID': { description: 'Echoed correlation ID', required: true, schema: { type: 'string', format: 'uuid' } }
+          },
+          links: { GetWithdrawal: { operationId: 'getWithdrawal', parameters: { withdrawalId: '$response.body#/withdrawalId' } } }
+        }
+      },
+      callbacks: {
+        onSettled: {
+          '{$request.body#/callbackUrl}': {
+            post: {
+              requestBody: {
+                content: { 'application/json': { schema: { type: 'object', properties: { settledAmount: { type: 'number' } } } } }
+              },
+              responses: { '200': { description: 'Received' } }
+            }
+          }
+        }
+      }
+    },
+    {
+      webhooks: {
+        withdrawalCancelled: {
+          post: {
+            operationId: 'withdrawalCancelled',
+            requestBody: {
+              content: { 'application/json': { schema: { type: 'object', properties: { cancelledAt: { type: 'string' } } } } }
+            },
+            responses: { '200': { description: 'Received' } }
+          }
+        }
+      }
+    }
+  );
+
+  test('documents response headers except Content-Type', async () => {
+    const headers = (await model).fieldInstances.filter(field => field.location === 'response_header');
+
+    assert.deepEqual(headers.map(field => [field.httpStatus, field.fieldPath, field.type, field.format, field.required]), [
+      ['202', 'X-Correlation-ID', 'string', 'uuid', 'Yes']
+    ]);
+  });
+
+  test('summarizes response links on the endpoint', async () => {
+    const endpoint = (await model).endpoints.find(e => e.operationId === 'submitWithdrawal')!;
+    assert.equal(endpoint.responseLinks, '202: GetWithdrawal -> getWithdrawal(withdrawalId=$response.body#/withdrawalId)');
+  });
+
+  test('lists callbacks and webhooks as endpoints whose bodies are callback_body', async () => {
+    const { endpoints, fieldInstances } = await model;
+
+    assert.deepEqual(endpoints.map(e => `${e.kind} ${e.method} ${e.path} ${e.operationId}`).sort(), [
+      'callback POST {$request.body#/callbackUrl} submitWithdrawal_onSettled_post',
+      'operation POST /v1/withdrawals submitWithdrawal',
+      'webhook POST withdrawalCancelled withdrawalCancelled'
+    ]);
+    assert.deepEqual(
+      fieldInstances.filter(field => field.location === 'callback_body').map(field => field.fieldPath).sort(),
+      ['cancelledAt', 'settledAmount']
+    );
+  });
+});
+
+describe('parameters and methods', () => {
+  const model = withdrawals(
+    {
+      parameters: [
+        {
+          name: 'filter',
+          in: 'query',
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { status: { type: 'string' } } },
+              example: { status: 'OPEN' }
+            }
+          }
+        },
+        { name: 'ids', in: 'query', explode: false, schema: { type: 'array', items: { type: 'string' } } },
+        { name: 'X-Request-ID', in: 'header', examples: { sample: { value: 'abc-123' } }, schema: { type: 'string' } }
+      ]
+    },
+    {
+      paths: {
+        '/v1/withdrawals/{withdrawalId}': {
+          parameters: [{ name: 'withdrawalId', in: 'path', required: true, schema: { type: 'string' } }],
+          head: { operationId: 'checkWithdrawal', responses: { '200': { description: 'Exists' } } },
+          options: { operationId: 'withdrawalOptions', responses: { '204': { description: 'Allowed methods' } } },
+          trace: { operationId: 'traceWithdrawal', responses: { '200': { description: 'Echo' } } }
+        }
+      }
+    }
+  );
+
+  test('reads the schema of a content parameter and flattens its sub-fields', async () => {
+    const rows = (await model).fieldInstances.filter(field => field.fieldPath.startsWith('filter'));
+
+    assert.deepEqual(rows.map(field => [field.fieldPath, field.type, field.mediaType, field.style, field.example]), [
+      ['filter', 'object', 'application/json', '', '{"status":"OPEN"}'],
+      ['filter.status', 'string', 'application/json', '', '']
+    ]);
+  });
+
+  test('shows serialization style, explode and allowReserved with their defaults', async () => {
+    const { fieldInstances } = await model;
+    const row = (name: string) => fieldInstances.find(field => field.fieldPath === name)!;
+
+    assert.deepEqual([row('ids').style, row('ids').explode, row('ids').allowReserved], ['form', 'No', 'No']);
+    assert.deepEqual([row('X-Request-ID').style, row('X-Request-ID').explode, row('X-Request-ID').allowReserved], ['simple', 'No', '']);
+    assert.equal(row('X-Request-ID').example, 'abc-123');
+  });
+
+  test('covers HEAD, OPTIONS and TRACE operations', async () => {
+    const methods = (await model).endpoints.filter(e => e.path === '/v1/withdrawals/{withdrawalId}').map(e => e.method);
+    assert.deepEqual(methods.sort(), ['HEAD', 'OPTIONS', 'TRACE']);
+  });
+});
+
+describe('security', () => {
+  const secured: Partial<OpenAPISpec> = {
+    security: [{ oauth: ['withdrawals:write'] }],
+    components: {
+      securitySchemes: {
+        oauth: {
+          type: 'oauth2',
+          flows: { clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: { 'withdrawals:write': 'Submit withdrawals' } } }
+        },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    }
+  };
+
+  test('summarizes schemes with their flows, scopes and parameter names', async () => {
+    const { securitySchemes } = await withdrawals({}, secured);
+
+    assert.deepEqual(securitySchemes.map(s => [s.name, s.type, s.in, s.parameterName, s.flows, s.scopes, s.global]), [
+      ['oauth', 'oauth2', '', '', 'clientCredentials: https://auth.example.com/token', 'withdrawals:write (Submit withdrawals)', 'Yes'],
+      ['apiKey', 'apiKey', 'header', 'X-API-Key', '', '', 'No']
+    ]);
+  });
+
+  test('shows the global, overridden and disabled requirement of each endpoint', async () => {
+    const auth = async (operation: Partial<Operation>) => (await withdrawals(operation, secured)).endpoints[0].auth;
+
+    assert.equal(await auth({}), 'oauth (withdrawals:write)');
+    assert.equal(await auth({ security: [{ apiKey: [] }, { oauth: [] }] }), 'apiKey | oauth');
+    assert.equal(await auth({ security: [{ apiKey: [], oauth: [] }, {}] }), 'apiKey + oauth | anonymous');
+    assert.equal(await auth({ security: [] }), 'None (security disabled)');
+  });
+
+  test('says so when a spec declares no security at all', async () => {
+    const { endpoints, securitySchemes } = await withdrawals({});
+
+    assert.equal(endpoints[0].auth, 'None declared');
+    assert.deepEqual(securitySchemes.map(s => s.type), ['none']);
+  });
+});
@@ -0,0 +1,513 @@
+import type {
+  BusinessRule,
+  DictionaryTables,
+  ExampleObject,
+  ExampleSummary,
+  FieldInstance,
+  FlattenContext,
+  Header,
+  MediaTypeObject,
+  OpenAPISpec,
+  Operation,
+  OperationTarget,
+  Parameter,
+  Schema,
+  SecurityRequirement,
+  SecuritySchemeSummary
+} from './types';
+import { getSchemaName, inheritPointer, schemaPointer } from './pointers';
+import { normalizeSchema, schemaType } from './normalize';
+import { buildConstraintDetails, buildConstraints, formatValue, schemaExample, yesNo } from './constraints';
+import { flattenSchema, mapValueType, objectOpenness } from './flatten';
+import { classifyPii } from './pii';
+
+export const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+// Serialization defaults from the OpenAPI parameter style table
+const DEFAULT_PARAMETER_STYLES: Record<Parameter['in'], string> = {
+  query: 'form',
+  cookie: 'form',
+  path: 'simple',
+  header: 'simple'
+};
+
+function processParameter(
+  param: Parameter,
+  ctx: Omit<FlattenContext, 'location' | 'httpStatus' | 'mediaType' | 'sourceRef' | 'requiredFields'>
+): FieldInstance[] {
+  const results: FieldInstance[] = [];
+  const locationMap: Record<string, string> = {
+    query: 'query_param',
+    header: 'header_param',
+    path: 'path_param',
+    cookie: 'cookie_param'
+  };
+
+  const location = locationMap[param.in] || param.in;
+
+  // A parameter carries either a schema with a style, or exactly one media type under `content`
+  const [mediaType, mediaTypeObj] = Object.entries(param.content || {})[0] || ['', undefined];
+  const rawSchema = mediaTypeObj ? mediaTypeObj.schema || {} : param.schema || {};
+  const schema = normalizeSchema(rawSchema);
+  const schemaName = getSchemaName(param) || getSchemaName(schema) || 'inline/anonymous';
+
+  const style = mediaTypeObj ? '' : param.style || DEFAULT_PARAMETER_STYLES[param.in] || '';
+  const explode = mediaTypeObj ? '' : yesNo(param.explode ?? style === 'form');
+  const allowReserved = !mediaTypeObj && param.in === 'query' ? yesNo(param.allowReserved) : '';
+
+  const example = parameterExample(param) ?? (mediaTypeObj && parameterExample(mediaTypeObj)) ?? schemaExample(schema);
+
+  results.push({
+    operationId: ctx.operationId,
+    method: ctx.method,
+    path: ctx.path,
+    tags: ctx.tags,
+    summary: ctx.summary,
+    location: location,
+    httpStatus: '',
+    mediaType,
+    style,
+    explode,
+    allowReserved,
+    schemaName: schemaName,
+    variant: '',
+    variantKind: '',
+    discriminatorValue: '',
+    fieldPath: param.name,
+    fieldName: param.name,
+    type: schemaType(schema),
+    itemType: schema.items ? schemaType(schema.items) : mapValueType(schema),
+    format: schema.format || '',
+    required: yesNo(param.required),
+    conditionallyRequired: '',
+    nullable: yesNo(schema.nullable),
+    deprecated: yesNo(param.deprecated),
+    readOnly: yesNo(schema.readOnly),
+    writeOnly: yesNo(schema.writeOnly),
+    additionalProperties: objectOpenness(schema),
+    pii: classifyPii(param.name, param, schema),
+    description: param.description || schema.description || '',
+    glossaryTerm: '',
+    glossaryDefinition: '',
+    constraints: buildConstraints(schema),
+    constraintDetails: buildConstraintDetails(schema),
+    example: formatValue(example),
+    default: formatValue(schema.default),
+    sourceRef: schemaPointer(param),
+    recursiveRef: '',
+    issues: ''
+  });
+
+  // Object and array parameters also get one row per sub-field, e.g. `filter.status`
+  const hasSubFields = (candidate: Schema) =>
+    candidate.type === 'object' || !!(candidate.properties || candidate.allOf || candidate.oneOf || candidate.anyOf);
+  if (hasSubFields(schema) || (schema.items && hasSubFields(normalizeSchema(schema.items)))) {
+    const subFieldCtx: FlattenContext = {
+      ...ctx,
+      location,
+      httpStatus: '',
+      mediaType,
+      sourceRef: schemaPointer(rawSchema) || schemaPointer(param),
+      requiredFields: new Set(schema.required || [])
+    };
+    results.push(...flattenSchema(rawSchema, param.name, subFieldCtx, schemaName).filter(row => row.fieldPath !== param.name));
+  }
+
+  return results;
+}
+
+function parameterExample(source: { example?: unknown; examples?: Record<string, ExampleObject> }): unknown {
+  if (source.example !== undefined) return source.example;
+  return Object.values(source.examples || {}).find(example => example.value !== undefined)?.value;
+}
+
+function describeCondition(when: Record<string, unknown> | undefined): string {
+  if (!when) return '';
+
+  return Object.entries(when).map(([field, expected]) => {
+    if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+      const { not, in: oneOf } = expected as { not?: unknown; in?: unknown[] };
+      if (not && typeof not === 'object' && Array.isArray((not as { in?: unknown[] }).in)) {
+        return `${field} not in [${(not as { in: unknown[] }).in.join(', ')}]`;
+      }
+      if (not !== undefined) return `${field} != ${formatValue(not)}`;
+      if (Array.isArray(oneOf)) return `${field} in [${oneOf.join(', ')}]`;
+    }
+    return `${field} == ${formatValue(expected)}`;
+  }).join(' and ');
+}
+
+// Converts a `$.a.b[*].c` JSONPath into the dictionary's `a.b[].c` field path
+function jsonPathToFieldPath(jsonPath: string): string {
+  return jsonPath
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\*|\d+)\]/g, '[]');
+}
+
+function extractBusinessRules(
+  operation: Operation,
+  ctx: Pick<FlattenContext, 'operationId' | 'method' | 'path'>
+): BusinessRule[] {
+  const results: BusinessRule[] = [];
+
+  for (const [ruleName, rule] of Object.entries(operation['x-business-rule'] || {})) {
+    const condition = describeCondition(rule.when);
+    const base = { operationId: ctx.operationId, method: ctx.method, path: ctx.path, ruleName, condition };
+
+    for (const target of rule.require || []) {
+      results.push({
+        ...base,
+        kind: 'require',
+        target,
+        description: `${jsonPathToFieldPath(target)} is required`,
+        assertion: ''
+      });
+    }
+
+    for (const constraint of rule.constraints || []) {
+      results.push({
+        ...base,
+        kind: 'constraint',
+        target: constraint.name || '',
+        description: constraint.description || '',
+        assertion: constraint.assert || ''
+      });
+    }
+  }
+
+  return results;
+}
+
+export function applyConditionalRequirements(fieldInstances: FieldInstance[], rules: BusinessRule[]): void {
+  for (const rule of rules) {
+    if (rule.kind !== 'require') continue;
+    const fieldPath = jsonPathToFieldPath(rule.target);
+
+    for (const field of fieldInstances) {
+      if (field.operationId !== rule.operationId || field.location !== 'request_body' || field.fieldPath !== fieldPath) {
+        continue;
+      }
+      const note = `${rule.condition || 'always'} (${rule.ruleName})`;
+      field.conditionallyRequired = field.conditionallyRequired ? `${field.conditionallyRequired}; ${note}` : note;
+    }
+  }
+}
+
+function collectExamples(mediaTypeObj: MediaTypeObject): Array<{ name: string } & ExampleObject> {
+  const results: Array<{ name: string } & ExampleObject> = [];
+
+  if (mediaTypeObj.example !== undefined) {
+    results.push({ name: 'example', value: mediaTypeObj.example });
+  }
+
+  for (const [name, example] of Object.entries(mediaTypeObj.examples || {})) {
+    results.push({ name, ...example });
+  }
+
+  return results;
+}
+
+// Walks a payload along a dictionary field path (`a.b[].c`, `a{key}.c`), fanning out over arrays and map entries
+function valuesAtFieldPath(payload: unknown, fieldPath: string): unknown[] {
+  let current: unknown[] = [payload];
+
+  for (const step of fieldPathSteps(fieldPath)) {
+    const values =
+      step === '[]'
+        ? current.flatMap(v => (Array.isArray(v) ? v : []))
+        : step.startsWith('{')
+          ? current.flatMap(v => (v && typeof v === 'object' && !Array.isArray(v) ? Object.values(v) : []))
+          : current.map(v => (v && typeof v === 'object' ? (v as Record<string, unknown>)[step] : undefined));
+
+    current = values.filter(v => v !== undefined);
+  }
+
+  return current;
+}
+
+// Splits a field path into property names, `[]` array steps and `{...}` map steps; a map
+// segment's pattern may itself contain dots or braces
+function fieldPathSteps(fieldPath: string): string[] {
+  const steps: string[] = [];
+  let name = '';
+  const endName = () => {
+    if (name) steps.push(name);
+    name = '';
+  };
+
+  for (let i = 0; i < fieldPath.length; i++) {
+    const char = fieldPath[i];
+    if (char === '.') {
+      endName();
+    } else if (char === '[' && fieldPath[i + 1] === ']') {
+      endName();
+      steps.push('[]');
+      i++;
+    } else if (char === '{') {
+      endName();
+      let depth = 0;
+      const start = i;
+      for (; i < fieldPath.length; i++) {
+        if (fieldPath[i] === '{') depth++;
+        else if (fieldPath[i] === '}' && --depth === 0) break;
+      }
+      steps.push(fieldPath.slice(start, i + 1));
+    } else {
+      name += char;
+    }
+  }
+  endName();
+
+  return steps;
+}
+
+function isScalarExample(value: unknown): boolean {
+  if (Array.isArray(value)) return value.every(v => v === null || typeof v !== 'object');
+  return value !== null && typeof value !== 'object';
+}
+
+function fillExamplesFromPayloads(fields: FieldInstance[], payloads: unknown[]): void {
+  for (const field of fields) {
+    if (field.example) continue;
+
+    for (const payload of payloads) {
+      const value = valuesAtFieldPath(payload, field.fieldPath).find(isScalarExample);
+      if (value !== undefined) {
+        field.example = formatValue(value);
+        break;
+      }
+    }
+  }
+}
+
+function processMediaTypeExamples(
+  mediaTypeObj: MediaTypeObject,
+  rows: FieldInstance[],
+  ctx: Pick<FlattenContext, 'operationId' | 'method' | 'path' | 'location' | 'httpStatus' | 'mediaType'>
+): ExampleSummary[] {
+  const examples = collectExamples(mediaTypeObj);
+
+  fillExamplesFromPayloads(rows, examples.filter(e => e.value !== undefined).map(e => e.value));
+
+  return examples.map(example => ({
+    operationId: ctx.operationId,
+    method: ctx.method,
+    path: ctx.path,
+    location: ctx.location,
+    httpStatus: ctx.httpStatus,
+    mediaType: ctx.mediaType,
+    exampleName: example.name,
+    summary: example.summary || '',
+    description: example.description || '',
+    value: example.value === undefined ? '' : JSON.stringify(example.value, null, 2),
+    externalValue: example.externalValue || ''
+  }));
+}
+
+/**
+ * Adds one operation's endpoint summary, parameter, header and body rows,
+ * business rules and examples to the spec's tables. Callback and webhook
+ * request bodies are what the API sends, so they land in `callback_body`.
+ */
+export function processOperation(target: OperationTarget, tables: DictionaryTables, recursionDepth: number): void {
+  const { operation, operationId } = target;
+  const tags = (operation.tags || []).join(', ');
+  const summary = operation.summary || '';
+  const description = operation.description || '';
+
+  // Collect request media types
+  const requestMediaTypes: string[] = [];
+  if (operation.requestBody?.content) {
+    requestMediaTypes.push(...Object.keys(operation.requestBody.content));
+  }
+
+  // Collect response codes, media types and links
+  const responseCodesAndMediaTypes: string[] = [];
+  const responseLinks: string[] = [];
+  if (operation.responses) {
+    for (const [code, response] of Object.entries(operation.responses)) {
+      const mediaTypes = response.content ? Object.keys(response.content) : [];
+      if (mediaTypes.length > 0) {
+        responseCodesAndMediaTypes.push(`${code}: ${mediaTypes.join(', ')}`);
+      } else {
+        responseCodesAndMediaTypes.push(code);
+      }
+
+      for (const [linkName, link] of Object.entries(response.links || {})) {
+        const linkTarget = link.operationId || link.operationRef || '';
+        const linkParams = Object.entries(link.parameters || {}).map(([name, value]) => `${name}=${formatValue(value)}`);
+        responseLinks.push(`${code}: ${linkName} -> ${linkTarget}${linkParams.length ? `(${linkParams.join(', ')})` : ''}`);
+      }
+    }
+  }
+
+  // Count parameters
+  const allParams = [...target.pathParams, ...(operation.parameters || [])];
+
+  // Add endpoint summary
+  tables.endpoints.push({
+    method: target.method.toUpperCase(),
+    path: target.path,
+    operationId,
+    kind: target.kind,
+    tags,
+    summary,
+    description,
+    requestMediaTypes: requestMediaTypes.join(', '),
+    responseCodesAndMediaTypes: responseCodesAndMediaTypes.join('; '),
+    responseLinks: responseLinks.join('; '),
+    auth: describeSecurity(operation.security ?? target.defaultSecurity),
+    parameterCount: allParams.length,
+    issues: ''
+  });
+
+  const baseCtx = {
+    operationId,
+    method: target.method.toUpperCase(),
+    path: target.path,
+    tags,
+    summary,
+    recursionDepth
+  };
+
+  tables.businessRules.push(...extractBusinessRules(operation, baseCtx));
+
+  // Process parameters (path-level + operation-level)
+  for (const param of allParams) {
+    tables.fieldInstances.push(...processParameter(param, baseCtx));
+  }
+
+  // Process request body
+  if (operation.requestBody?.content) {
+    for (const [mediaType, mediaTypeObj] of Object.entries(operation.requestBody.content)) {
+      if (mediaTypeObj.schema) {
+        const schemaName = getSchemaName(mediaTypeObj.schema) || 'inline/anonymous';
+        const ctx: FlattenContext = {
+          ...baseCtx,
+          location: target.kind === 'operation' ? 'request_body' : 'callback_body',
+          httpStatus: '',
+          mediaType,
+          sourceRef: schemaPointer(mediaTypeObj.schema),
+          requiredFields: new Set(mediaTypeObj.schema.required || [])
+        };
+
+        const rows = flattenSchema(mediaTypeObj.schema, '', ctx, schemaName);
+        tables.examples.push(...processMediaTypeExamples(mediaTypeObj, rows, ctx));
+        tables.fieldInstances.push(...rows);
+      }
+    }
+  }
+
+  // Process responses
+  if (operation.responses) {
+    for (const [statusCode, response] of Object.entries(operation.responses)) {
+      for (const [headerName, header] of Object.entries(response.headers || {})) {
+        // Content-Type is described by the media type, not as a header (OAS 3.x)
+        if (headerName.toLowerCase() === 'content-type') continue;
+        tables.fieldInstances.push(...processResponseHeader(headerName, header, statusCode, baseCtx));
+      }
+
+      if (response.content) {
+        for (const [mediaType, mediaTypeObj] of Object.entries(response.content)) {
+          if (mediaTypeObj.schema) {
+            const schemaName = getSchemaName(mediaTypeObj.schema) || 'inline/anonymous';
+            const ctx: FlattenContext = {
+              ...baseCtx,
+              location: 'response_body',
+              httpStatus: statusCode,
+              mediaType,
+              sourceRef: schemaPointer(mediaTypeObj.schema),
+              requiredFields: new Set(mediaTypeObj.schema.required || [])
+            };
+
+            const rows = flattenSchema(mediaTypeObj.schema, '', ctx, schemaName);
+            tables.examples.push(...processMediaTypeExamples(mediaTypeObj, rows, ctx));
+            tables.fieldInstances.push(...rows);
+          }
+        }
+      }
+    }
+  }
+}
+
+function processResponseHeader(
+  name: string,
+  header: Header,
+  statusCode: string,
+  ctx: Omit<FlattenContext, 'location' | 'httpStatus' | 'mediaType' | 'sourceRef' | 'requiredFields'>
+): FieldInstance[] {
+  const param: Parameter = { ...header, name, in: 'header' };
+  inheritPointer(param, header);
+
+  return processParameter(param, ctx).map(row => ({
+    ...row,
+    location: 'response_header',
+    httpStatus: statusCode
+  }));
+}
+
+function describeSecurity(requirements: SecurityRequirement[] | undefined): string {
+  if (!requirements) return 'None declared';
+  if (requirements.length === 0) return 'None (security disabled)';
+
+  // Alternatives are OR-ed; schemes within one requirement are all needed
+  return requirements.map(requirement => {
+    const schemes = Object.entries(requirement);
+    if (schemes.length === 0) return 'anonymous';
+    return schemes
+      .map(([name, scopes]) => (scopes.length > 0 ? `${name} (${scopes.join(', ')})` : name))
+      .join(' + ');
+  }).join(' | ');
+}
+
+export function summarizeSecuritySchemes(api: OpenAPISpec): SecuritySchemeSummary[] {
+  const globalSchemes = new Set((api.security || []).flatMap(requirement => Object.keys(requirement)));
+  const schemes = Object.entries(api.components?.securitySchemes || {});
+
+  if (schemes.length === 0 && !api.security) {
+    return [{
+      name: '',
+      type: 'none',
+      scheme: '',
+      bearerFormat: '',
+      in: '',
+      parameterName: '',
+      flows: '',
+      scopes: '',
+      openIdConnectUrl: '',
+      global: '',
+      description: 'This specification declares no security schemes or requirements; authentication is left to each firm.'
+    }];
+  }
+
+  return schemes.map(([name, scheme]) => {
+    const flows = Object.entries(scheme.flows || {});
+    const scopes = new Map<string, string>();
+    for (const [, flow] of flows) {
+      for (const [scope, description] of Object.entries(flow.scopes || {})) scopes.set(scope, description);
+    }
+
+    return {
+      name,
+      type: scheme.type,
+      scheme: scheme.scheme || '',
+      bearerFormat: scheme.bearerFormat || '',
+      in: scheme.in || '',
+      parameterName: scheme.name || '',
+      flows: flows
+        .map(([flowName, flow]) => {
+          const urls = [flow.authorizationUrl, flow.tokenUrl, flow.refreshUrl].filter(Boolean);
+          return urls.length > 0 ? `${flowName}: ${urls.join(', ')}` : flowName;
+        })
+        .join('; '),
+      scopes: [...scopes].map(([scope, description]) => (description ? `${scope} (${description})` : scope)).join('; '),
+      openIdConnectUrl: scheme.openIdConnectUrl || '',
+      global: yesNo(globalSchemes.has(name)),
+      description: scheme.description || ''
+    };
+  });
+}
+
+export function sanitizeOperationId(method: string, path: string): string {
+  return `${method}_${path.replace(/[^a-zA-Z0-9]/g, '_')}`.replace(/_+/g, '_');
+}
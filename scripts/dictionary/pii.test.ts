@@ -0,0 +1,38 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyPii } from './pii';
+
+describe('classifyPii', () => {
+  test('classifies by field name, ignoring case and separators', () => {
+    assert.equal(classifyPii('firstName'), 'name');
+    assert.equal(classifyPii('email_address'), 'email');
+    assert.equal(classifyPii('SSN'), 'taxId');
+    assert.equal(classifyPii('cardNumber'), 'accountNumber');
+    assert.equal(classifyPii('npn'), 'personIdentifier');
+  });
+
+  test('leaves policy and contract numbers alone, since they key most resource paths', () => {
+    assert.equal(classifyPii('policyNumber'), '');
+    assert.equal(classifyPii('contractId'), '');
+  });
+
+  test('strips the array suffix of primitive array fields', () => {
+    assert.equal(classifyPii('phoneNumbers[]'), '');
+    assert.equal(classifyPii('mobile[]'), 'phone');
+  });
+
+  test('falls back to the schema format', () => {
+    assert.equal(classifyPii('contact', { type: 'string', format: 'email' }), 'email');
+    assert.equal(classifyPii('status', { type: 'string', format: 'date' }), '');
+  });
+
+  test('lets x-pii override the heuristics', () => {
+    assert.equal(classifyPii('firstName', { 'x-pii': false }), '');
+    assert.equal(classifyPii('notes', { 'x-pii': true }), 'declared');
+    assert.equal(classifyPii('notes', { 'x-pii': 'health' }), 'health');
+  });
+
+  test('uses the first source that declares x-pii', () => {
+    assert.equal(classifyPii('ref', { name: 'ref', in: 'query', 'x-pii': 'accountNumber' }, { 'x-pii': false }), 'accountNumber');
+  });
+});
@@ -0,0 +1,43 @@
+import type { Parameter, Schema } from './types';
+
+// Matched in order against the field name, lower-cased with separators removed
+const NAME_PATTERNS: Array<[category: string, pattern: RegExp]> = [
+  ['email', /e?mail(address)?$/],
+  ['name', /^(first|last|middle|full|given|family|legal|preferred|maiden)name$|^surname$/],
+  ['phone', /(phone|mobile|fax)(number)?$/],
+  ['address', /address(line\d*)?$|^street|postalcode$|zipcode$|^zip$/],
+  ['taxId', /^(ssn|tin|ein|itin)$|taxid|socialsecurity/],
+  ['dateOfBirth', /^(dob|birthdate|dateofbirth)$/],
+  ['accountNumber', /(account|card|routing|iban)(number|no|id)$|^iban$/],
+  ['personIdentifier', /^(npn|crd(number)?|(producer|agent|license|tracking)(number|id))$/]
+];
+
+const FORMAT_CATEGORIES: Record<string, string> = {
+  email: 'email',
+  'idn-email': 'email',
+  phone: 'phone',
+  tel: 'phone',
+  ssn: 'taxId',
+  tin: 'taxId'
+};
+
+/**
+ * PII category for a field, or '' when it is not PII. An `x-pii` extension on
+ * the parameter or schema wins: `true` or a category name marks the field and
+ * `false` clears it. Otherwise the field name and format decide.
+ */
+export function classifyPii(fieldName: string, ...sources: Array<Parameter | Schema | undefined>): string {
+  for (const source of sources) {
+    const declared = source?.['x-pii'];
+    if (declared === undefined) continue;
+    if (typeof declared === 'string') return declared;
+    return declared ? 'declared' : '';
+  }
+
+  const name = fieldName.replace(/\[\]$/, '').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+  const byName = NAME_PATTERNS.find(([, pattern]) => pattern.test(name));
+  if (byName) return byName[0];
+
+  const format = sources.find(source => source && 'format' in source && source.format) as Schema | undefined;
+  return (format?.format && FORMAT_CATEGORIES[format.format]) || '';
+}
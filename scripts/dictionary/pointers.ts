@@ -0,0 +1,40 @@
+import type { Parameter, Schema } from './types';
+
+// JSON Pointer of every node in the bundled spec, keyed by object identity.
+// Dereferencing in place keeps component objects intact, so a field's schema
+// still maps back to the `#/components/...` definition it came from.
+const schemaPointers = new WeakMap<object, string>();
+
+function escapePointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export function unescapePointerSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+export function indexPointers(node: unknown, pointer: string = '#'): void {
+  if (!node || typeof node !== 'object' || schemaPointers.has(node)) return;
+  schemaPointers.set(node, pointer);
+
+  for (const [key, value] of Object.entries(node)) {
+    indexPointers(value, `${pointer}/${escapePointerSegment(key)}`);
+  }
+}
+
+export function schemaPointer(schema: object): string {
+  return schemaPointers.get(schema) || '';
+}
+
+export function inheritPointer(target: object, source: object): void {
+  const pointer = schemaPointers.get(source);
+  if (pointer && !schemaPointers.has(target)) schemaPointers.set(target, pointer);
+}
+
+// Name of the component a schema is defined in, falling back to its title
+export function getSchemaName(schema: Schema | Parameter): string {
+  const match = schemaPointer(schema).match(/^#\/components\/(?:schemas|parameters|headers)\/([^/]+)/);
+  if (match) return unescapePointerSegment(match[1]);
+
+  return ('title' in schema && schema.title) || '';
+}
@@ -0,0 +1,20 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import * as os from 'os';
+import type { AddressInfo } from 'net';
+import { serveOutput } from './serve';
+
+describe('serveOutput', () => {
+  test('rejects with a readable message when the port is taken', async () => {
+    const blocker = http.createServer();
+    await new Promise<void>(resolve => blocker.listen(0, resolve));
+    const { port } = blocker.address() as AddressInfo;
+
+    try {
+      await assert.rejects(serveOutput(os.tmpdir(), port), new RegExp(`port ${port} is already in use`));
+    } finally {
+      blocker.close();
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+const LIVE_RELOAD_PATH = '/__dictionary-reload';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.yaml': 'text/yaml; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.tsv': 'text/tab-separated-values; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8'
+};
+
+// Injected into served HTML only, so the generated files never carry dev tooling
+const LIVE_RELOAD_SCRIPT =
+  `<script>new EventSource('${LIVE_RELOAD_PATH}').addEventListener('reload', () => location.reload());</script>`;
+
+// Resolves once the server is listening
+export function serveOutput(publicDir: string, port: number): Promise<{ notifyReload: () => void }> {
+  const clients = new Set<http.ServerResponse>();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === LIVE_RELOAD_PATH) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+      res.write(': connected\n\n');
+      clients.add(res);
+      req.on('close', () => clients.delete(res));
+      return;
+    }
+
+    let requested: string;
+    try {
+      requested = url.pathname === '/' ? '/data-dictionary.html' : decodeURIComponent(url.pathname);
+    } catch {
+      // Malformed percent-encoding, e.g. /%E0%A4%A
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Bad request');
+      return;
+    }
+
+    const filePath = path.join(publicDir, path.normalize(requested));
+    if (!filePath.startsWith(publicDir + path.sep) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+
+    const extension = path.extname(filePath);
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream', 'Cache-Control': 'no-store' });
+    if (extension === '.html') {
+      res.end(fs.readFileSync(filePath, 'utf8').replace('</body>', `${LIVE_RELOAD_SCRIPT}\n</body>`));
+    } else {
+      fs.createReadStream(filePath).pipe(res);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    // A port already in use is reported to the caller rather than as an unhandled 'error' event
+    server.once('error', (error: NodeJS.ErrnoException) => {
+      const reason = error.code === 'EADDRINUSE' ? `port ${port} is already in use` : error.message;
+      reject(new Error(`Cannot serve ${publicDir}: ${reason}`));
+    });
+
+    server.listen(port, () => {
+      console.log(`\nServing ${publicDir} at http://localhost:${port}/data-dictionary.html`);
+      resolve({
+        notifyReload: () => {
+          for (const client of clients) client.write('event: reload\ndata: \n\n');
+        }
+      });
+    });
+  });
+}
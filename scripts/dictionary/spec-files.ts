@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches zero or more directories
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${pattern.slice(i + 1, close).split(',').map(escapeRegExp).join('|')})`;
+      i = close;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+}
+
+function walkFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === 'node_modules' ? [] : walkFiles(full);
+    return [full];
+  });
+}
+
+/**
+ * Expands spec arguments into absolute file paths. A directory contributes its
+ * YAML files; a pattern with `*`, `?` or `{a,b}` is matched from its
+ * longest literal directory prefix.
+ */
+export function resolveSpecFiles(patterns: string[]): string[] {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    const normalized = pattern.split(path.sep).join('/');
+    if (!/[*?{]/.test(normalized)) {
+      if (!fs.existsSync(pattern)) throw new Error(`Spec not found: ${pattern}`);
+      if (fs.statSync(pattern).isDirectory()) {
+        fs.readdirSync(pattern)
+          .filter(f => f.endsWith('.yaml') || f.endsWith('.yml'))
+          .forEach(f => files.add(path.join(pattern, f)));
+      } else {
+        files.add(pattern);
+      }
+      continue;
+    }
+
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex(segment => /[*?{]/.test(segment));
+    const baseDir = segments.slice(0, firstGlob).join('/') || '/';
+    const matcher = globToRegExp(normalized);
+
+    if (!fs.existsSync(baseDir)) continue;
+    for (const file of walkFiles(baseDir)) {
+      if (matcher.test(file.split(path.sep).join('/'))) files.add(file);
+    }
+  }
+
+  return [...files].sort((a, b) => path.basename(a).localeCompare(path.basename(b)));
+}
+
+export function specKeyOf(specPath: string): string {
+  return path.basename(specPath, path.extname(specPath));
+}
@@ -0,0 +1,417 @@
+export interface FieldInstance {
+  operationId: string;
+  method: string;
+  path: string;
+  tags: string;
+  summary: string;
+  location: string;
+  httpStatus: string;
+  mediaType: string;
+  style: string;
+  explode: string;
+  allowReserved: string;
+  schemaName: string;
+  variant: string;
+  variantKind: string;
+  discriminatorValue: string;
+  fieldPath: string;
+  fieldName: string;
+  type: string;
+  itemType: string;
+  format: string;
+  required: string;
+  conditionallyRequired: string;
+  nullable: string;
+  deprecated: string;
+  readOnly: string;
+  writeOnly: string;
+  additionalProperties: string;
+  // PII category from x-pii or name/format heuristics, '' when not PII
+  pii: string;
+  description: string;
+  // Glossary term the field is named after, by name, plural or synonym, and its canonical definition
+  glossaryTerm: string;
+  glossaryDefinition: string;
+  constraints: string;
+  constraintDetails: ConstraintDetails;
+  example: string;
+  default: string;
+  sourceRef: string;
+  recursiveRef: string;
+  issues: string;
+}
+
+// Machine-readable form of the Constraints column, keyed by JSON Schema keyword
+export type ConstraintDetails = Record<string, unknown>;
+
+export interface EndpointSummary {
+  method: string;
+  path: string;
+  operationId: string;
+  kind: string;
+  tags: string;
+  summary: string;
+  description: string;
+  requestMediaTypes: string;
+  responseCodesAndMediaTypes: string;
+  responseLinks: string;
+  auth: string;
+  parameterCount: number;
+  issues: string;
+}
+
+export interface BusinessRule {
+  operationId: string;
+  method: string;
+  path: string;
+  ruleName: string;
+  condition: string;
+  kind: 'require' | 'constraint';
+  target: string;
+  description: string;
+  assertion: string;
+}
+
+export interface SecuritySchemeSummary {
+  name: string;
+  type: string;
+  scheme: string;
+  bearerFormat: string;
+  in: string;
+  parameterName: string;
+  flows: string;
+  scopes: string;
+  openIdConnectUrl: string;
+  global: string;
+  description: string;
+}
+
+export interface ExampleSummary {
+  operationId: string;
+  method: string;
+  path: string;
+  location: string;
+  httpStatus: string;
+  mediaType: string;
+  exampleName: string;
+  summary: string;
+  description: string;
+  value: string;
+  externalValue: string;
+}
+
+// Everything the writers need for one spec, with no file-system details
+export interface DictionaryModel {
+  apiInfo: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  fieldInstances: FieldInstance[];
+  endpoints: EndpointSummary[];
+  schemas: SchemaSummary[];
+  businessRules: BusinessRule[];
+  examples: ExampleSummary[];
+  securitySchemes: SecuritySchemeSummary[];
+  lintViolations: LintViolation[];
+}
+
+export type LintSeverity = 'error' | 'warning';
+
+// One style-guide rule broken by one field instance
+export interface LintViolation {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  hint: string;
+  operationId: string;
+  method: string;
+  path: string;
+  location: string;
+  httpStatus: string;
+  fieldPath: string;
+}
+
+export interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  description: string;
+  check(field: FieldInstance, context: LintContext): { message: string; hint: string } | undefined;
+}
+
+export interface LintContext {
+  // Rows one level below an object or array row, in the same operation, location and variant
+  childrenOf(field: FieldInstance): FieldInstance[];
+  // Rows sharing the field's parent, the field included
+  siblingsOf(field: FieldInstance): FieldInstance[];
+  options: LintOptions;
+}
+
+export interface LintOptions {
+  // Response schema names or operationIds approved to wrap their payload in an envelope
+  envelopeAllowlist?: string[];
+  // Canonical terms for the glossary rules; buildDictionary passes BuildOptions.glossary
+  glossary?: GlossaryTerm[];
+}
+
+// One canonical data definition from the glossary file (docs/glossary.json)
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+  type?: string;
+  format?: string;
+  pattern?: string;
+  synonyms?: string[];
+}
+
+export interface BuildOptions {
+  // How many times a recursive schema is re-expanded before a marker row is emitted (default 0)
+  recursionDepth?: number;
+  lint?: LintOptions;
+  glossary?: GlossaryTerm[];
+}
+
+export interface SchemaSummary {
+  name: string;
+  type: string;
+  description: string;
+  propertyCount: number;
+  required: string;
+}
+
+export interface OpenAPISpec {
+  openapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  paths?: Record<string, PathItem>;
+  webhooks?: Record<string, PathItem>;
+  security?: SecurityRequirement[];
+  components?: {
+    schemas?: Record<string, Schema>;
+    parameters?: Record<string, Parameter>;
+    securitySchemes?: Record<string, SecurityScheme>;
+  };
+}
+
+// Scheme name -> required scopes; an empty object means anonymous access is allowed
+export type SecurityRequirement = Record<string, string[]>;
+
+export interface SecurityScheme {
+  type: 'apiKey' | 'http' | 'mutualTLS' | 'oauth2' | 'openIdConnect';
+  description?: string;
+  name?: string;
+  in?: 'query' | 'header' | 'cookie';
+  scheme?: string;
+  bearerFormat?: string;
+  flows?: Record<string, OAuthFlow>;
+  openIdConnectUrl?: string;
+}
+
+export interface OAuthFlow {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes?: Record<string, string>;
+}
+
+export interface PathItem {
+  get?: Operation;
+  post?: Operation;
+  put?: Operation;
+  patch?: Operation;
+  delete?: Operation;
+  head?: Operation;
+  options?: Operation;
+  trace?: Operation;
+  parameters?: Parameter[];
+}
+
+export interface Operation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: Parameter[];
+  requestBody?: RequestBody;
+  responses?: Record<string, Response>;
+  deprecated?: boolean;
+  callbacks?: Record<string, Record<string, PathItem>>;
+  security?: SecurityRequirement[];
+  'x-business-rule'?: Record<string, BusinessRuleDefinition>;
+}
+
+// Operation-level extension describing conditional requirements
+export interface BusinessRuleDefinition {
+  when?: Record<string, unknown>;
+  require?: string[];
+  constraints?: Array<{
+    name?: string;
+    description?: string;
+    assert?: string;
+  }>;
+}
+
+export interface Parameter {
+  name: string;
+  in: 'query' | 'header' | 'path' | 'cookie';
+  description?: string;
+  required?: boolean;
+  deprecated?: boolean;
+  style?: string;
+  explode?: boolean;
+  allowReserved?: boolean;
+  schema?: Schema;
+  content?: Record<string, MediaTypeObject>;
+  example?: unknown;
+  examples?: Record<string, ExampleObject>;
+  'x-pii'?: boolean | string;
+}
+
+export interface RequestBody {
+  required?: boolean;
+  description?: string;
+  content?: Record<string, MediaTypeObject>;
+}
+
+export interface Response {
+  description?: string;
+  headers?: Record<string, Header>;
+  content?: Record<string, MediaTypeObject>;
+  links?: Record<string, Link>;
+}
+
+export type Header = Omit<Parameter, 'name' | 'in'>;
+
+export interface Link {
+  operationId?: string;
+  operationRef?: string;
+  parameters?: Record<string, unknown>;
+  requestBody?: unknown;
+  description?: string;
+}
+
+export interface MediaTypeObject {
+  schema?: Schema;
+  example?: unknown;
+  examples?: Record<string, ExampleObject>;
+}
+
+export interface ExampleObject {
+  summary?: string;
+  description?: string;
+  value?: unknown;
+  externalValue?: string;
+}
+
+export interface Schema {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  properties?: Record<string, Schema>;
+  items?: Schema;
+  required?: string[];
+  enum?: (string | number)[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  multipleOf?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  contains?: Schema;
+  minContains?: number;
+  maxContains?: number;
+  prefixItems?: Schema[];
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, Schema>;
+  if?: Schema;
+  then?: Schema;
+  else?: Schema;
+  not?: Schema;
+  nullable?: boolean;
+  deprecated?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  example?: unknown;
+  examples?: unknown[];
+  default?: unknown;
+  allOf?: Schema[];
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+  const?: unknown;
+  $ref?: string;
+  title?: string;
+  additionalProperties?: boolean | Schema;
+  patternProperties?: Record<string, Schema>;
+  propertyNames?: Schema;
+  minProperties?: number;
+  maxProperties?: number;
+  'x-pii'?: boolean | string;
+  discriminator?: {
+    propertyName: string;
+    mapping?: Record<string, string>;
+  };
+}
+
+// Where an operation lives: under paths, inside a callback, or a webhook
+export interface OperationTarget {
+  kind: 'operation' | 'callback' | 'webhook';
+  method: string;
+  path: string;
+  operationId: string;
+  operation: Operation;
+  pathParams: Parameter[];
+  // Root-level `security`, which applies unless the operation overrides it
+  defaultSecurity?: SecurityRequirement[];
+}
+
+// Rows collected for a single spec
+export interface DictionaryTables {
+  fieldInstances: FieldInstance[];
+  endpoints: EndpointSummary[];
+  businessRules: BusinessRule[];
+  examples: ExampleSummary[];
+}
+
+// Context for flattening schemas
+export interface FlattenContext {
+  operationId: string;
+  method: string;
+  path: string;
+  tags: string;
+  summary: string;
+  location: string;
+  httpStatus: string;
+  mediaType: string;
+  sourceRef: string;
+  requiredFields: Set<string>;
+  // How many times a recursive schema is re-expanded before a marker row is emitted
+  recursionDepth: number;
+}
+
+// Which oneOf/anyOf branch (possibly nested) a field belongs to
+export interface VariantContext {
+  variant: string;
+  variantKind: string;
+  discriminatorValue: string;
+}
+
+// Where a per-spec writer puts its file and the provenance it stamps in
+export interface WriterContext {
+  outDir: string;
+  key: string;
+  generatedAt: string;
+  source: string;
+  // SHA-256 of the spec file, as recorded in the manifest
+  sha256: string;
+}
+
+// Writes one output format for a spec and returns the paths it wrote
+export type SpecWriter = (model: DictionaryModel, context: WriterContext) => string[];
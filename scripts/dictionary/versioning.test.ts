@@ -0,0 +1,57 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkVersioning } from './versioning';
+import type { EndpointSummary } from './types';
+
+function endpoint(path: string, kind = 'operation'): EndpointSummary {
+  return {
+    method: 'GET',
+    path,
+    operationId: `get${path}`,
+    kind,
+    tags: '',
+    summary: '',
+    description: '',
+    requestMediaTypes: '',
+    responseCodesAndMediaTypes: '',
+    responseLinks: '',
+    auth: '',
+    parameterCount: 0,
+    issues: ''
+  };
+}
+
+describe('checkVersioning', () => {
+  test('accepts SemVer that matches the paths and file key', () => {
+    assert.deepEqual(checkVersioning('2.1.0-beta.1', [endpoint('/v2/things')], 'thingsv2'), []);
+  });
+
+  test('rejects a version that is not SemVer and skips the other checks', () => {
+    const violations = checkVersioning('2.1', [endpoint('/things')], 'thingsv1');
+    assert.deepEqual(violations.map(v => v.ruleId), ['versioning/semver']);
+  });
+
+  test('flags a file key naming another major version', () => {
+    const [violation] = checkVersioning('2.0.0', [endpoint('/v2/things')], 'thingsv1');
+
+    assert.equal(violation.ruleId, 'versioning/file-key');
+    assert.match(violation.hint, /rename the file to thingsv2/);
+  });
+
+  test('flags missing or mismatched path versions on the endpoint', () => {
+    const unversioned = endpoint('/things');
+    const mismatched = endpoint('/v1/things/{id}');
+    const violations = checkVersioning('2.0.0', [unversioned, mismatched]);
+
+    assert.deepEqual(violations.map(v => [v.ruleId, v.path]), [
+      ['versioning/path-major', '/things'],
+      ['versioning/path-major', '/v1/things/{id}']
+    ]);
+    assert.match(unversioned.issues, /no \/v2\/ version segment/);
+    assert.match(mismatched.issues, /path version v1 does not match/);
+  });
+
+  test('ignores webhooks and callbacks', () => {
+    assert.deepEqual(checkVersioning('1.0.0', [endpoint('thingCreated', 'webhook')]), []);
+  });
+});
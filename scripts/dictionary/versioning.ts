@@ -0,0 +1,76 @@
+import type { EndpointSummary, LintViolation } from './types';
+import { formatViolation } from './lint';
+
+// semver.org's recommended pattern: MAJOR.MINOR.PATCH with optional pre-release and build metadata
+const SEMVER = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+function specViolation(ruleId: string, message: string, hint: string, endpoint?: EndpointSummary): LintViolation {
+  return {
+    ruleId,
+    severity: 'error',
+    message,
+    hint,
+    operationId: endpoint?.operationId ?? '',
+    method: endpoint?.method ?? '',
+    path: endpoint?.path ?? '',
+    location: '',
+    httpStatus: '',
+    fieldPath: ''
+  };
+}
+
+/**
+ * README versioning rules: `info.version` is SemVer, every operation path
+ * carries the major version as a `/v<major>/` segment, and a spec file key
+ * ending in a version number (`appstatusv2`) agrees with it. Path violations
+ * are also written to the endpoint's Issues column.
+ */
+export function checkVersioning(version: string, endpoints: EndpointSummary[], specKey = ''): LintViolation[] {
+  const violations: LintViolation[] = [];
+  const semver = String(version).match(SEMVER);
+
+  if (!semver) {
+    violations.push(specViolation(
+      'versioning/semver',
+      `info.version "${version}" is not valid SemVer`,
+      'use MAJOR.MINOR.PATCH, e.g. 2.0.0 or 2.1.0-beta.1'
+    ));
+    return violations;
+  }
+
+  const major = Number(semver[1]);
+  const keyVersion = specKey.match(/v?(\d+)$/);
+  if (keyVersion && Number(keyVersion[1]) !== major) {
+    violations.push(specViolation(
+      'versioning/file-key',
+      `spec file key "${specKey}" names version ${keyVersion[1]} but info.version is ${version}`,
+      `rename the file to ${specKey.slice(0, keyVersion.index)}${keyVersion[0].startsWith('v') ? 'v' : ''}${major} or fix info.version`
+    ));
+  }
+
+  // Callbacks and webhooks are addressed by the consumer, not versioned by this API
+  for (const endpoint of endpoints.filter(e => e.kind === 'operation')) {
+    const segment = endpoint.path.split('/').find(part => /^v\d+$/i.test(part));
+    const violation = !segment
+      ? specViolation(
+        'versioning/path-major',
+        `path has no /v${major}/ version segment`,
+        `prefix the path with /v${major}`,
+        endpoint
+      )
+      : Number(segment.slice(1)) !== major
+        ? specViolation(
+          'versioning/path-major',
+          `path version ${segment} does not match info.version ${version}`,
+          `use /v${major}/ or set info.version to ${segment.slice(1)}.x.y`,
+          endpoint
+        )
+        : undefined;
+
+    if (!violation) continue;
+    violations.push(violation);
+    endpoint.issues = endpoint.issues ? `${endpoint.issues}; ${formatViolation(violation)}` : formatViolation(violation);
+  }
+
+  return violations;
+}
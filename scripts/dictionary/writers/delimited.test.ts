@@ -0,0 +1,92 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildDictionary } from '../build';
+import { writeCombinedDelimited, writeCsv, writeTsv } from './delimited';
+import type { WriterContext } from '../types';
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'delimited-test-'));
+after(() => fs.rmSync(outDir, { recursive: true, force: true }));
+
+const context: WriterContext = { outDir, key: 'notes', generatedAt: '2024-01-01T00:00:00.000Z', source: 'notes.yaml', sha256: '' };
+
+const model = await buildDictionary({
+  openapi: '3.1.0',
+  info: { title: 'Notes', version: '1.0.0' },
+  paths: {
+    '/v1/notes': {
+      get: {
+        operationId: 'listNotes',
+        parameters: [{
+          name: 'text',
+          in: 'query',
+          description: 'Says "hi", then\nwaves\tback \\ twice',
+          schema: { type: 'string' }
+        }],
+        responses: { '204': { description: 'No content' } }
+      }
+    }
+  }
+});
+
+function fieldRows(files: string[], extension: string): string {
+  const file = files.find(f => f.endsWith(`-field-instances.${extension}`))!;
+  return fs.readFileSync(file, 'utf8');
+}
+
+describe('writeCsv', () => {
+  test('quotes fields with commas, quotes and line breaks and ends lines with CRLF', () => {
+    const csv = fieldRows(writeCsv(model, context), 'csv');
+    const [header, row] = csv.split('\r\n');
+
+    assert.match(header, /^operationId,method,path,/);
+    assert.ok(row.startsWith('listNotes,GET,/v1/notes,'));
+    assert.ok(csv.includes('"Says ""hi"", then\nwaves\tback \\ twice"'));
+    assert.ok(csv.endsWith('\r\n'));
+  });
+});
+
+describe('writeTsv', () => {
+  test('escapes backslashes, tabs and line breaks', () => {
+    const tsv = fieldRows(writeTsv(model, context), 'tsv');
+
+    assert.ok(tsv.includes('\tSays "hi", then\\nwaves\\tback \\\\ twice\t'));
+    assert.equal(tsv.split('\n').length, 3);
+  });
+});
+
+describe('empty tables', () => {
+  test('still get a header row', () => {
+    const files = writeCsv(model, { ...context, key: 'empty-schemas' });
+    const schemas = fs.readFileSync(files.find(f => f.endsWith('-schemas.csv'))!, 'utf8');
+
+    assert.equal(schemas, 'name,type,description,propertyCount,required\r\n');
+  });
+});
+
+describe('writeCombinedDelimited', () => {
+  const entry = { key: 'notes', title: 'Notes', version: '1.0.0', sha256: '' };
+
+  test('uses the models built in this run without reading JSON', () => {
+    const emptyDir = fs.mkdtempSync(path.join(outDir, 'combined-'));
+    const files = writeCombinedDelimited(emptyDir, [entry], 'csv', new Map([['notes', model]]));
+    const [header, row] = fs.readFileSync(files.find(f => f.endsWith('-endpoints.csv'))!, 'utf8').split('\r\n');
+
+    assert.match(header, /^specification,method,path,/);
+    assert.match(row, /^Notes v1\.0\.0,GET,\/v1\/notes,listNotes,/);
+  });
+
+  test('reads specs not built in this run from their JSON output', () => {
+    const jsonDir = fs.mkdtempSync(path.join(outDir, 'combined-'));
+    fs.writeFileSync(path.join(jsonDir, 'data-dictionary-other.json'), JSON.stringify(model));
+    const other = { key: 'other', title: 'Other', version: '2.0.0', sha256: '' };
+    const missing = { key: 'missing', title: 'Missing', version: '1.0.0', sha256: '' };
+
+    const files = writeCombinedDelimited(jsonDir, [entry, other, missing], 'csv', new Map([['notes', model]]));
+    const rows = fs.readFileSync(files.find(f => f.endsWith('-endpoints.csv'))!, 'utf8').trim().split('\r\n').slice(1);
+
+    assert.deepEqual(rows.map(row => row.split(',')[0]), ['Notes v1.0.0', 'Other v2.0.0']);
+  });
+});
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DictionaryModel, EndpointSummary, FieldInstance, SchemaSummary, SpecWriter, WriterContext } from '../types';
+import type { ManifestEntry } from './manifest';
+
+export type DelimitedFormat = 'csv' | 'tsv';
+
+// File-name prefix of the combined all-spec tables
+export const COMBINED_KEY = 'all-specs';
+
+type Columns<T> = Record<keyof T, true>;
+
+// Every column of a row type, in output order; a field missing from the list fails to compile
+function columnsOf<T>(columns: Columns<T>): string[] {
+  return Object.keys(columns);
+}
+
+interface DelimitedTable {
+  // Listed up front so an empty table still gets its header row
+  columns: string[];
+  rows: (model: DictionaryModel) => object[];
+}
+
+// Tables exported as CSV/TSV, keyed by their file-name suffix
+const DELIMITED_TABLES: Record<string, DelimitedTable> = {
+  'field-instances': {
+    columns: columnsOf<Omit<FieldInstance, 'constraintDetails'>>({
+      operationId: true, method: true, path: true, tags: true, summary: true, location: true, httpStatus: true,
+      mediaType: true, style: true, explode: true, allowReserved: true, schemaName: true, variant: true,
+      variantKind: true, discriminatorValue: true, fieldPath: true, fieldName: true, type: true, itemType: true,
+      format: true, required: true, conditionallyRequired: true, nullable: true, deprecated: true, readOnly: true,
+      writeOnly: true, additionalProperties: true, pii: true, description: true, glossaryTerm: true,
+      glossaryDefinition: true, constraints: true, example: true, default: true, sourceRef: true, recursiveRef: true, issues: true
+    }),
+    rows: model => model.fieldInstances
+  },
+  endpoints: {
+    columns: columnsOf<EndpointSummary>({
+      method: true, path: true, operationId: true, kind: true, tags: true, summary: true, description: true,
+      requestMediaTypes: true, responseCodesAndMediaTypes: true, responseLinks: true, auth: true,
+      parameterCount: true, issues: true
+    }),
+    rows: model => model.endpoints
+  },
+  schemas: {
+    columns: columnsOf<SchemaSummary>({ name: true, type: true, description: true, propertyCount: true, required: true }),
+    rows: model => model.schemas
+  }
+};
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// RFC 4180: quote fields holding a comma, quote or line break, and double embedded quotes
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// TSV has no quoting, so backslashes, tabs and line breaks are escaped instead
+function tsvField(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+}
+
+function toDelimited(columns: string[], rows: object[], format: DelimitedFormat): string {
+  const [separator, escape, lineBreak] = format === 'csv' ? [',', csvField, '\r\n'] : ['\t', tsvField, '\n'];
+  const lines = [
+    columns,
+    ...rows.map(row => columns.map(column => formatCell((row as Record<string, unknown>)[column])))
+  ];
+  return lines.map(cells => cells.map(escape).join(separator)).join(lineBreak) + lineBreak;
+}
+
+function writeTables(
+  outDir: string,
+  prefix: string,
+  format: DelimitedFormat,
+  extraColumns: string[],
+  rowsOf: (table: DelimitedTable) => object[]
+): string[] {
+  return Object.entries(DELIMITED_TABLES).map(([name, table]) => {
+    const filePath = path.join(outDir, `data-dictionary-${prefix}-${name}.${format}`);
+    fs.writeFileSync(filePath, toDelimited([...extraColumns, ...table.columns], rowsOf(table), format));
+    return filePath;
+  });
+}
+
+function delimitedWriter(format: DelimitedFormat): SpecWriter {
+  return (model: DictionaryModel, context: WriterContext) =>
+    writeTables(context.outDir, context.key, format, [], table => table.rows(model));
+}
+
+export const writeCsv = delimitedWriter('csv');
+export const writeTsv = delimitedWriter('tsv');
+
+/**
+ * Writes the all-spec tables with a leading `specification` column. Specs
+ * built in this run come from `models`; the other manifest entries are read
+ * back from their per-spec JSON, so a run that regenerates a single spec still
+ * produces complete files.
+ */
+export function writeCombinedDelimited(
+  outDir: string,
+  manifest: ManifestEntry[],
+  format: DelimitedFormat,
+  models: Map<string, DictionaryModel> = new Map()
+): string[] {
+  const specs = manifest.filter(entry => !entry.error).flatMap(entry => {
+    let model = models.get(entry.key);
+    if (!model) {
+      const jsonPath = path.join(outDir, `data-dictionary-${entry.key}.json`);
+      if (!fs.existsSync(jsonPath)) return [];
+      model = JSON.parse(fs.readFileSync(jsonPath, 'utf8')) as DictionaryModel;
+    }
+    return [{ specification: `${entry.title} v${entry.version}`, model }];
+  });
+
+  return writeTables(outDir, COMBINED_KEY, format, ['specification'], table =>
+    specs.flatMap(({ specification, model }) => table.rows(model).map(row => ({ specification, ...row })))
+  );
+}
@@ -0,0 +1,12 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GlossaryTerm } from '../types';
+
+export const GLOSSARY_FILE = 'data-dictionary-glossary.json';
+
+// Published next to the manifest for the viewer's Glossary tab
+export function writeGlossary(outDir: string, glossary: GlossaryTerm[]): string {
+  const glossaryPath = path.join(outDir, GLOSSARY_FILE);
+  fs.writeFileSync(glossaryPath, JSON.stringify({ terms: glossary }, null, 2));
+  return glossaryPath;
+}
@@ -0,0 +1,1231 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { COMBINED_KEY } from './delimited';
+
+// Writes the Tabulator viewer that loads the manifest and per-spec JSON at runtime
+export function writeHtml(outDir: string): string {
+  const outputPath = path.join(outDir, 'data-dictionary.html');
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>API Data Dictionary</title>
+  <link href="https://unpkg.com/tabulator-tables@5.5.0/dist/css/tabulator.min.css" rel="stylesheet">
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">
+  <link rel="stylesheet" href="./css/custom.css">
+  <link rel="icon" type="image/png" href="./favicon-32x32.png" sizes="32x32" />
+  <link rel="icon" type="image/png" href="./favicon-16x16.png" sizes="16x16" />
+  <style>
+    :root {
+      --navy: #001a3e;
+      --navy-dark: #05244c;
+      --blue-accent: #1485e0;
+      --blue-light: #e8f4fc;
+      --cyan: #00d084;
+      --white: #ffffff;
+      --gray-50: #f8fafc;
+      --gray-100: #f1f6fa;
+      --gray-200: #e2e8f0;
+      --gray-300: #D2E2EF;
+      --gray-500: #757575;
+      --gray-600: #405368;
+      --radius-sm: 8px;
+      --radius-md: 12px;
+      --radius-lg: 24px;
+      --radius-full: 9999px;
+      --shadow: 0 4px 6px -1px rgba(0, 26, 62, 0.1), 0 2px 4px -2px rgba(0, 26, 62, 0.1);
+      --shadow-lg: 0 20px 40px -12px rgba(0, 26, 62, 0.15);
+    }
+
+    * {
+      box-sizing: border-box;
+      margin: 0;
+      padding: 0;
+    }
+
+    body {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      background: var(--gray-100);
+      color: var(--gray-600);
+      min-height: 100vh;
+      line-height: 1.6;
+      -webkit-font-smoothing: antialiased;
+    }
+
+    .page-wrapper {
+      padding: 40px;
+      max-width: 100%;
+    }
+
+    /* Header */
+    .page-wrapper header {
+      background: var(--navy);
+      color: var(--white);
+      padding: 48px;
+      border-radius: var(--radius-lg) var(--radius-lg) 0 0;
+      position: relative;
+      overflow: hidden;
+    }
+
+    .page-wrapper header::before {
+      content: '';
+      position: absolute;
+      top: 0;
+      right: 0;
+      width: 50%;
+      height: 100%;
+      background: linear-gradient(135deg, transparent 0%, rgba(20, 133, 224, 0.1) 100%);
+      pointer-events: none;
+    }
+
+    .header-content {
+      position: relative;
+      z-index: 1;
+    }
+
+    .header-text h1 {
+      font-size: 2.25rem;
+      font-weight: 700;
+      letter-spacing: -0.02em;
+      margin-bottom: 20px;
+      color: var(--white);
+    }
+
+    .meta {
+      display: flex;
+      gap: 24px;
+      flex-wrap: wrap;
+    }
+
+    .meta-item {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 14px 20px;
+      background: rgba(255, 255, 255, 0.1);
+      backdrop-filter: blur(10px);
+      border-radius: var(--radius-md);
+      border: 1px solid rgba(255, 255, 255, 0.15);
+    }
+
+    .meta-item .icon {
+      width: 40px;
+      height: 40px;
+      border-radius: var(--radius-sm);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 1.25rem;
+      background: rgba(20, 133, 224, 0.3);
+    }
+
+    .meta-item .label {
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      letter-spacing: 0.08em;
+      color: rgba(255, 255, 255, 0.7);
+      margin-bottom: 2px;
+    }
+
+    .meta-item .value {
+      font-weight: 600;
+      color: var(--white);
+      font-size: 0.95rem;
+    }
+
+    .spec-selector-select {
+      background: rgba(255, 255, 255, 0.15) url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='white'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E") no-repeat right 10px center;
+      background-size: 16px;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: var(--radius-sm);
+      color: var(--white);
+      font-family: inherit;
+      font-size: 0.9rem;
+      font-weight: 600;
+      padding: 6px 32px 6px 12px;
+      cursor: pointer;
+      appearance: none;
+      min-width: 220px;
+    }
+
+    .spec-selector-select:focus {
+      outline: none;
+      border-color: rgba(255, 255, 255, 0.7);
+    }
+
+    .spec-selector-select option {
+      background: var(--navy-dark);
+      color: var(--white);
+    }
+
+    /* Main card */
+    .main-card {
+      background: var(--white);
+      border-radius: 0 0 var(--radius-lg) var(--radius-lg);
+      box-shadow: var(--shadow-lg);
+      overflow: hidden;
+    }
+
+    /* Tab navigation */
+    .tab-navigation {
+      display: flex;
+      gap: 8px;
+      padding: 20px 32px;
+      background: var(--gray-50);
+      border-bottom: 1px solid var(--gray-200);
+    }
+
+    .tab-btn {
+      padding: 12px 24px;
+      border: none;
+      background: transparent;
+      color: var(--gray-500);
+      font-family: inherit;
+      font-size: 0.9rem;
+      font-weight: 600;
+      cursor: pointer;
+      border-radius: var(--radius-full);
+      transition: all 0.2s ease;
+    }
+
+    .tab-btn:hover {
+      color: var(--navy-dark);
+      background: var(--gray-200);
+    }
+
+    .tab-btn.active {
+      color: var(--white);
+      background: var(--blue-accent);
+      box-shadow: 0 4px 12px rgba(20, 133, 224, 0.3);
+    }
+
+    /* Controls */
+    .controls {
+      padding: 24px 32px;
+      display: flex;
+      flex-wrap: wrap;
+      gap: 16px;
+      align-items: center;
+      background: var(--white);
+      border-bottom: 1px solid var(--gray-200);
+    }
+
+    .search-wrapper {
+      position: relative;
+      flex: 1;
+      min-width: 280px;
+      max-width: 400px;
+    }
+
+    .search-wrapper::before {
+      content: '';
+      position: absolute;
+      left: 16px;
+      top: 50%;
+      transform: translateY(-50%);
+      width: 20px;
+      height: 20px;
+      background-image: url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23757575'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z'/%3E%3C/svg%3E");
+      background-size: contain;
+      pointer-events: none;
+    }
+
+    .controls input[type="text"] {
+      width: 100%;
+      padding: 14px 20px 14px 48px;
+      background: var(--gray-50);
+      border: 2px solid var(--gray-200);
+      border-radius: var(--radius-full);
+      color: var(--navy-dark);
+      font-family: inherit;
+      font-size: 0.95rem;
+      transition: all 0.2s ease;
+    }
+
+    .controls input[type="text"]:focus {
+      outline: none;
+      border-color: var(--blue-accent);
+      background: var(--white);
+      box-shadow: 0 0 0 4px rgba(20, 133, 224, 0.1);
+    }
+
+    .controls input[type="text"]::placeholder {
+      color: var(--gray-500);
+    }
+
+    .controls select {
+      padding: 14px 44px 14px 18px;
+      background: var(--gray-50) url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23757575'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M19 9l-7 7-7-7'/%3E%3C/svg%3E") no-repeat right 14px center;
+      background-size: 18px;
+      border: 2px solid var(--gray-200);
+      border-radius: var(--radius-full);
+      color: var(--navy-dark);
+      font-family: inherit;
+      font-size: 0.9rem;
+      font-weight: 500;
+      cursor: pointer;
+      min-width: 160px;
+      appearance: none;
+      transition: all 0.2s ease;
+    }
+
+    .controls select:focus {
+      outline: none;
+      border-color: var(--blue-accent);
+      background-color: var(--white);
+      box-shadow: 0 0 0 4px rgba(20, 133, 224, 0.1);
+    }
+
+    .controls select:hover {
+      border-color: var(--gray-300);
+    }
+
+    .download-btn {
+      background: var(--blue-accent);
+      color: var(--white);
+      border: none;
+      padding: 14px 28px;
+      border-radius: var(--radius-full);
+      cursor: pointer;
+      font-family: inherit;
+      font-size: 0.9rem;
+      font-weight: 600;
+      text-decoration: none;
+      display: inline-flex;
+      align-items: center;
+      gap: 10px;
+      transition: all 0.2s ease;
+    }
+
+    .downloads {
+      display: inline-flex;
+      align-items: center;
+      gap: 12px;
+      margin-left: auto;
+    }
+
+    .download-link {
+      color: var(--blue-accent);
+      font-size: 0.85rem;
+      font-weight: 600;
+      text-decoration: none;
+    }
+
+    .download-link:hover {
+      color: var(--navy);
+      text-decoration: underline;
+    }
+
+    .download-btn:hover {
+      background: var(--navy);
+      transform: translateY(-2px);
+      box-shadow: 0 8px 20px rgba(0, 26, 62, 0.2);
+    }
+
+    .download-btn:active {
+      transform: translateY(0);
+    }
+
+    .download-btn::before {
+      content: '';
+      width: 18px;
+      height: 18px;
+      background-image: url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='white' stroke-width='2.5'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' d='M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4'/%3E%3C/svg%3E");
+      background-size: contain;
+    }
+
+    /* Stats bar */
+    .stats-row {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 14px 32px;
+      background: var(--blue-light);
+      border-bottom: 1px solid var(--gray-300);
+      flex-wrap: wrap;
+      gap: 12px;
+    }
+
+    .stats {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--navy-dark);
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+
+    .stats::before {
+      content: '';
+      width: 8px;
+      height: 8px;
+      background: var(--cyan);
+      border-radius: 50%;
+      animation: pulse 2s ease-in-out infinite;
+    }
+
+    .table-hint {
+      font-size: 0.75rem;
+      color: var(--gray-500);
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .table-hint::before {
+      content: '';
+      width: 16px;
+      height: 16px;
+      background-image: url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 24 24' stroke='%23757575'%3E%3Cpath stroke-linecap='round' stroke-linejoin='round' stroke-width='2' d='M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z'/%3E%3C/svg%3E");
+      background-size: contain;
+    }
+
+    @keyframes pulse {
+      0%, 100% { opacity: 1; }
+      50% { opacity: 0.5; }
+    }
+
+    /* Table container */
+    .table-container {
+      background: var(--white);
+    }
+
+    #data-table {
+      font-size: 0.85rem;
+    }
+
+    /* Tabulator Theme Override */
+    .tabulator {
+      background: var(--white);
+      border: none;
+      font-family: 'Inter', sans-serif;
+    }
+
+    .tabulator .tabulator-header {
+      background: var(--gray-50);
+      border-bottom: 2px solid var(--gray-200);
+    }
+
+    .tabulator .tabulator-header .tabulator-col {
+      background: transparent;
+      border-right: 1px solid var(--gray-200);
+    }
+
+    .tabulator .tabulator-header .tabulator-col:last-child {
+      border-right: none;
+    }
+
+    .tabulator .tabulator-header .tabulator-col .tabulator-col-content {
+      padding: 16px;
+    }
+
+    .tabulator .tabulator-header .tabulator-col .tabulator-col-title {
+      font-weight: 700;
+      color: var(--navy-dark);
+      font-size: 0.7rem;
+      text-transform: uppercase;
+      letter-spacing: 0.08em;
+    }
+
+    /* Column resize handle */
+    .tabulator .tabulator-header .tabulator-col .tabulator-col-resize-handle {
+      width: 8px;
+      right: -4px;
+      background: transparent;
+      transition: background 0.15s ease;
+    }
+
+    .tabulator .tabulator-header .tabulator-col .tabulator-col-resize-handle:hover {
+      background: var(--blue-accent);
+      cursor: col-resize;
+    }
+
+    .tabulator .tabulator-header .tabulator-col.tabulator-col-resizing {
+      background: var(--blue-light);
+    }
+
+    .tabulator .tabulator-header .tabulator-col.tabulator-col-resizing .tabulator-col-resize-handle {
+      background: var(--blue-accent);
+    }
+
+    /* Resize guide line */
+    .tabulator .tabulator-col-resize-guide {
+      background: var(--blue-accent);
+      width: 2px;
+      opacity: 0.8;
+    }
+
+    .tabulator .tabulator-tableholder .tabulator-table {
+      background: var(--white);
+      color: var(--gray-600);
+    }
+
+    .tabulator-row {
+      background: var(--white) !important;
+      border-bottom: 1px solid var(--gray-200);
+      transition: all 0.15s ease;
+    }
+
+    .tabulator-row:hover {
+      background: var(--blue-light) !important;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.12);
+      position: relative;
+      z-index: 1;
+    }
+
+    .tabulator-row.tabulator-row-even {
+      background: var(--gray-50) !important;
+    }
+
+    .tabulator-row.tabulator-row-even:hover {
+      background: var(--blue-light) !important;
+      box-shadow: 0 2px 8px rgba(0, 0, 0, 0.12);
+      position: relative;
+      z-index: 1;
+    }
+
+    .tabulator-row .tabulator-cell {
+      padding: 14px 16px;
+      border-right: none;
+      color: var(--gray-600);
+    }
+
+    .tabulator .tabulator-footer {
+      background: var(--gray-50);
+      border-top: 2px solid var(--gray-200);
+      padding: 16px 20px;
+    }
+
+    .tabulator .tabulator-footer .tabulator-page {
+      background: var(--white);
+      border: 2px solid var(--gray-200);
+      border-radius: var(--radius-sm);
+      color: var(--gray-600);
+      padding: 8px 14px;
+      margin: 0 4px;
+      font-weight: 600;
+      font-family: inherit;
+      transition: all 0.15s ease;
+    }
+
+    .tabulator .tabulator-footer .tabulator-page:hover {
+      border-color: var(--blue-accent);
+      color: var(--blue-accent);
+    }
+
+    .tabulator .tabulator-footer .tabulator-page.active {
+      background: var(--blue-accent);
+      border-color: var(--blue-accent);
+      color: var(--white);
+    }
+
+    .tabulator .tabulator-header .tabulator-col .tabulator-header-filter input {
+      background: var(--white);
+      border: 2px solid var(--gray-200);
+      border-radius: var(--radius-sm);
+      padding: 8px 12px;
+      font-size: 0.75rem;
+      font-family: inherit;
+      color: var(--navy-dark);
+      transition: all 0.15s ease;
+    }
+
+    .tabulator .tabulator-header .tabulator-col .tabulator-header-filter input:focus {
+      outline: none;
+      border-color: var(--blue-accent);
+      box-shadow: 0 0 0 3px rgba(20, 133, 224, 0.1);
+    }
+
+    .tabulator .tabulator-footer .tabulator-paginator {
+      color: var(--gray-600);
+      font-family: inherit;
+    }
+
+    /* Loading state */
+    .loading {
+      text-align: center;
+      padding: 80px 40px;
+      color: var(--gray-500);
+    }
+
+    .loading::before {
+      content: '';
+      display: block;
+      width: 48px;
+      height: 48px;
+      margin: 0 auto 20px;
+      border: 4px solid var(--gray-200);
+      border-top-color: var(--blue-accent);
+      border-radius: 50%;
+      animation: spin 0.8s linear infinite;
+    }
+
+    @keyframes spin {
+      to { transform: rotate(360deg); }
+    }
+
+    /* Error state */
+    .error {
+      background: #fef2f2;
+      color: #dc2626;
+      padding: 24px;
+      border-radius: var(--radius-md);
+      margin: 24px;
+      border: 2px solid #fecaca;
+      font-weight: 600;
+    }
+
+    /* Responsive */
+    @media (max-width: 1024px) {
+      .page-wrapper {
+        padding: 24px;
+      }
+
+      .page-wrapper header {
+        padding: 32px;
+      }
+
+      .header-text h1 {
+        font-size: 1.75rem;
+      }
+
+      .controls {
+        padding: 20px 24px;
+      }
+
+      .tab-navigation {
+        padding: 16px 24px;
+        overflow-x: auto;
+      }
+    }
+
+    @media (max-width: 768px) {
+      .page-wrapper {
+        padding: 16px;
+      }
+
+      .page-wrapper header {
+        padding: 24px;
+        border-radius: var(--radius-md) var(--radius-md) 0 0;
+      }
+
+      .header-text h1 {
+        font-size: 1.5rem;
+      }
+
+      .meta {
+        flex-direction: column;
+        gap: 12px;
+      }
+
+      .main-card {
+        border-radius: 0 0 var(--radius-md) var(--radius-md);
+      }
+
+      .search-wrapper {
+        min-width: 100%;
+        max-width: 100%;
+      }
+
+      .controls select {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .downloads {
+        width: 100%;
+        margin-left: 0;
+      }
+
+      .download-btn {
+        flex: 1;
+        justify-content: center;
+      }
+
+      .tab-btn {
+        padding: 10px 18px;
+        font-size: 0.85rem;
+      }
+    }
+  </style>
+</head>
+<body>
+  <header class="site-header">
+    <div class="container">
+      <nav class="main-nav">
+        <ul>
+          <li><a href="index.html">API Documentation</a></li>
+          <li><a href="data-dictionary.html" class="active">Data Dictionary</a></li>
+          <li class="nav-dropdown">
+            <a href="#" class="nav-dropdown-toggle">Working Groups</a>
+            <ul class="nav-dropdown-menu">
+              <li><a href="https://github.com/Insured-Retirement-Institute/Application-Status" target="_blank">Application Status</a></li>
+              <li><a href="https://github.com/Insured-Retirement-Institute/Producer-Training" target="_blank">Producer Training</a></li>
+              <li><a href="https://github.com/Insured-Retirement-Institute/Activated-Annuity-Income" target="_blank">Policy Income</a></li>
+              <li><a href="https://github.com/Insured-Retirement-Institute/One-Time-Withdrawals" target="_blank">One-Time Withdrawals</a></li>
+              <li><a href="https://github.com/Insured-Retirement-Institute/One-Time-Withdrawal-Quote" target="_blank">One-Time Withdrawal Quote</a></li>
+              <li><a href="https://github.com/Insured-Retirement-Institute/Systematic-Program" target="_blank">Systematic Program</a></li>
+            </ul>
+          </li>
+        </ul>
+      </nav>
+    </div>
+  </header>
+
+  <div class="page-wrapper">
+    <header>
+      <div class="header-content">
+        <div class="header-text">
+          <h1>API Data Dictionary</h1>
+          <div class="meta">
+            <div class="meta-item">
+              <div class="icon">&#128203;</div>
+              <div>
+                <div class="label">Specification</div>
+                <select id="spec-selector" class="spec-selector-select">
+                  <option value="">Loading specs...</option>
+                </select>
+              </div>
+            </div>
+            <div class="meta-item">
+              <div class="icon">&#128337;</div>
+              <div>
+                <div class="label">Generated</div>
+                <div class="value" id="generated-at">—</div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </header>
+
+    <div class="main-card">
+      <div class="tab-navigation">
+        <button class="tab-btn active" data-tab="fields">Field Instances</button>
+        <button class="tab-btn" data-tab="endpoints">Endpoints</button>
+        <button class="tab-btn" data-tab="schemas">Schemas</button>
+        <button class="tab-btn" data-tab="rules">Business Rules</button>
+        <button class="tab-btn" data-tab="security">Security</button>
+        <button class="tab-btn" data-tab="glossary">Glossary</button>
+      </div>
+
+      <div class="controls">
+        <div class="search-wrapper">
+          <input type="text" id="search" placeholder="Search all columns...">
+        </div>
+        <select id="filter-method">
+          <option value="">All Methods</option>
+          <option value="GET">GET</option>
+          <option value="POST">POST</option>
+          <option value="PUT">PUT</option>
+          <option value="PATCH">PATCH</option>
+          <option value="DELETE">DELETE</option>
+          <option value="HEAD">HEAD</option>
+          <option value="OPTIONS">OPTIONS</option>
+          <option value="TRACE">TRACE</option>
+        </select>
+        <select id="filter-location">
+          <option value="">All Locations</option>
+          <option value="path_param">Path Parameter</option>
+          <option value="query_param">Query Parameter</option>
+          <option value="header_param">Header Parameter</option>
+          <option value="cookie_param">Cookie Parameter</option>
+          <option value="request_body">Request Body</option>
+          <option value="response_header">Response Header</option>
+          <option value="response_body">Response Body</option>
+          <option value="callback_body">Callback Body</option>
+        </select>
+        <select id="filter-status">
+          <option value="">All Status Codes</option>
+        </select>
+        <select id="filter-variant">
+          <option value="">All Variants</option>
+        </select>
+        <div class="downloads">
+          <a href="#" class="download-btn" download>Download Excel</a>
+          <a href="#" class="download-link" data-format="csv" download>CSV</a>
+          <a href="#" class="download-link" data-format="tsv" download>TSV</a>
+        </div>
+      </div>
+
+      <div class="stats-row">
+        <div class="stats" id="stats">Loading data...</div>
+        <div class="table-hint">Drag column edges to resize &bull; Drag headers to reorder</div>
+      </div>
+
+      <div class="table-container">
+        <div id="data-table"></div>
+      </div>
+    </div>
+  </div>
+
+  <script src="https://unpkg.com/tabulator-tables@5.5.0/dist/js/tabulator.min.js"></script>
+  <script>
+    let data = null;
+    let table = null;
+    let currentTab = 'fields';
+    let currentManifest = [];
+    let isAllSpecs = false;
+    let currentKey = null;
+    let glossary = [];
+
+    // Tabs with CSV/TSV exports, mapped to their file-name suffix
+    const delimitedTables = {fields: 'field-instances', endpoints: 'endpoints', schemas: 'schemas'};
+
+    const specColumn = {title: "Specification", field: "specification", headerFilter: true, width: 220};
+
+    const fieldColumns = [
+      {title: "Operation ID", field: "operationId", headerFilter: true, width: 180},
+      {title: "Method", field: "method", headerFilter: true, width: 80},
+      {title: "Path", field: "path", headerFilter: true, width: 250},
+      {title: "Location", field: "location", headerFilter: true, width: 120},
+      {title: "HTTP Status", field: "httpStatus", headerFilter: true, width: 100},
+      {title: "Field Path", field: "fieldPath", headerFilter: true, width: 200},
+      {title: "Field Name", field: "fieldName", headerFilter: true, width: 150},
+      {title: "Type", field: "type", headerFilter: true, width: 80},
+      {title: "Item Type", field: "itemType", width: 80},
+      {title: "Format", field: "format", width: 100},
+      {title: "Required", field: "required", headerFilter: true, width: 80},
+      {title: "Conditionally Required", field: "conditionallyRequired", width: 220},
+      {title: "Nullable", field: "nullable", width: 80},
+      {title: "Style", field: "style", headerFilter: true, width: 100},
+      {title: "Explode", field: "explode", width: 80},
+      {title: "Allow Reserved", field: "allowReserved", width: 110},
+      {title: "Description", field: "description", width: 300},
+      {title: "Glossary Term", field: "glossaryTerm", headerFilter: true, width: 150},
+      {title: "Glossary Definition", field: "glossaryDefinition", width: 300},
+      {title: "Constraints", field: "constraints", width: 200},
+      {title: "Example", field: "example", width: 150},
+      {title: "Default", field: "default", width: 100},
+      {title: "Schema Name", field: "schemaName", width: 150},
+      {title: "Variant", field: "variant", headerFilter: true, width: 150},
+      {title: "Variant Kind", field: "variantKind", width: 100},
+      {title: "Discriminator", field: "discriminatorValue", width: 150},
+      {title: "Deprecated", field: "deprecated", width: 90},
+      {title: "Read Only", field: "readOnly", width: 90},
+      {title: "Write Only", field: "writeOnly", width: 90},
+      {title: "Additional Properties", field: "additionalProperties", headerFilter: true, width: 120},
+      {title: "PII", field: "pii", headerFilter: true, width: 110},
+      {title: "Tags", field: "tags", width: 150},
+      {title: "Source Ref", field: "sourceRef", width: 200},
+      {title: "Recursive Ref", field: "recursiveRef", width: 150},
+      {title: "Issues", field: "issues", width: 150}
+    ];
+
+    const endpointColumns = [
+      {title: "Method", field: "method", headerFilter: true, width: 80},
+      {title: "Path", field: "path", headerFilter: true, width: 300},
+      {title: "Operation ID", field: "operationId", headerFilter: true, width: 200},
+      {title: "Kind", field: "kind", headerFilter: true, width: 100},
+      {title: "Tags", field: "tags", headerFilter: true, width: 150},
+      {title: "Summary", field: "summary", width: 300},
+      {title: "Description", field: "description", width: 400},
+      {title: "Request Media Types", field: "requestMediaTypes", width: 200},
+      {title: "Response Codes", field: "responseCodesAndMediaTypes", width: 250},
+      {title: "Links", field: "responseLinks", width: 250},
+      {title: "Auth", field: "auth", headerFilter: true, width: 200},
+      {title: "Param Count", field: "parameterCount", width: 100},
+      {title: "Issues", field: "issues", width: 300}
+    ];
+
+    const schemaColumns = [
+      {title: "Name", field: "name", headerFilter: true, width: 200},
+      {title: "Type", field: "type", headerFilter: true, width: 100},
+      {title: "Description", field: "description", width: 400},
+      {title: "Property Count", field: "propertyCount", width: 120},
+      {title: "Required Fields", field: "required", width: 300}
+    ];
+
+    const businessRuleColumns = [
+      {title: "Operation ID", field: "operationId", headerFilter: true, width: 180},
+      {title: "Method", field: "method", headerFilter: true, width: 80},
+      {title: "Path", field: "path", headerFilter: true, width: 250},
+      {title: "Rule", field: "ruleName", headerFilter: true, width: 120},
+      {title: "Condition", field: "condition", width: 250},
+      {title: "Kind", field: "kind", headerFilter: true, width: 100},
+      {title: "Target", field: "target", width: 200},
+      {title: "Description", field: "description", width: 400},
+      {title: "Assertion", field: "assertion", width: 200}
+    ];
+
+    const securityColumns = [
+      {title: "Name", field: "name", headerFilter: true, width: 150},
+      {title: "Type", field: "type", headerFilter: true, width: 120},
+      {title: "Scheme", field: "scheme", width: 100},
+      {title: "Bearer Format", field: "bearerFormat", width: 110},
+      {title: "In", field: "in", width: 80},
+      {title: "Parameter Name", field: "parameterName", width: 150},
+      {title: "Flows", field: "flows", width: 300},
+      {title: "Scopes", field: "scopes", width: 300},
+      {title: "OpenID Connect URL", field: "openIdConnectUrl", width: 250},
+      {title: "Global", field: "global", width: 80},
+      {title: "Description", field: "description", width: 400}
+    ];
+
+    // Uses counts the loaded fields the generator matched to the term: by name, plural or synonym
+    const glossaryColumns = [
+      {title: "Term", field: "term", headerFilter: true, width: 180},
+      {title: "Definition", field: "definition", width: 400},
+      {title: "Type", field: "type", headerFilter: true, width: 80},
+      {title: "Format", field: "format", width: 100},
+      {title: "Pattern", field: "pattern", width: 150},
+      {title: "Synonyms", field: "synonyms", headerFilter: true, width: 300},
+      {title: "Uses", field: "uses", width: 80}
+    ];
+
+    async function loadGlossary() {
+      try {
+        const response = await fetch('./data-dictionary-glossary.json');
+        if (response.ok) glossary = (await response.json()).terms || [];
+      } catch (error) {
+        glossary = [];
+      }
+    }
+
+    function glossaryRows() {
+      const uses = new Map();
+      for (const field of data.fieldInstances) {
+        if (field.glossaryTerm) uses.set(field.glossaryTerm, (uses.get(field.glossaryTerm) || 0) + 1);
+      }
+      return glossary.map(term => ({
+        term: term.term,
+        definition: term.definition,
+        type: term.type || '',
+        format: term.format || '',
+        pattern: term.pattern || '',
+        synonyms: (term.synonyms || []).join(', '),
+        uses: uses.get(term.term) || 0
+      }));
+    }
+
+    async function loadManifest() {
+      await loadGlossary();
+      try {
+        const response = await fetch('./data-dictionary-manifest.json');
+        if (!response.ok) throw new Error('Failed to load spec manifest');
+        const manifest = await response.json();
+
+        currentManifest = manifest;
+        const selector = document.getElementById('spec-selector');
+        selector.innerHTML = '';
+
+        const allOption = document.createElement('option');
+        allOption.value = '__all__';
+        allOption.textContent = 'All Specifications';
+        selector.appendChild(allOption);
+
+        manifest.forEach(spec => {
+          const option = document.createElement('option');
+          option.value = spec.key;
+          if (spec.error) {
+            // Specs that failed to build stay listed so their absence is visible
+            option.textContent = \`\${spec.title} (unavailable)\`;
+            option.title = spec.error;
+            option.disabled = true;
+          } else {
+            option.textContent = \`\${spec.title} v\${spec.version}\`;
+          }
+          selector.appendChild(option);
+        });
+
+        // Apply URL param if present
+        const urlParams = new URLSearchParams(window.location.search);
+        const specParam = urlParams.get('spec');
+        if (specParam === '__all__' || (specParam && manifest.find(s => s.key === specParam && !s.error))) {
+          selector.value = specParam;
+        }
+
+        selector.addEventListener('change', () => {
+          const key = selector.value;
+          const url = new URL(window.location);
+          url.searchParams.set('spec', key);
+          window.history.pushState({}, '', url);
+          loadData(key);
+        });
+
+        if (manifest.length > 0) {
+          loadData(selector.value);
+        }
+      } catch (error) {
+        document.getElementById('data-table').innerHTML =
+          \`<div class="error">Error loading manifest: \${error.message}</div>\`;
+      }
+    }
+
+    function updateDownloadLinks() {
+      const table = delimitedTables[currentTab];
+      const prefix = isAllSpecs ? '${COMBINED_KEY}' : currentKey;
+      document.querySelectorAll('.download-link').forEach(link => {
+        link.style.display = table && prefix ? '' : 'none';
+        if (table) link.href = \`./data-dictionary-\${prefix}-\${table}.\${link.dataset.format}\`;
+      });
+    }
+
+    async function loadData(key) {
+      try {
+        currentKey = key;
+        if (key === '__all__') {
+          isAllSpecs = true;
+          const allFieldInstances = [];
+          const allEndpoints = [];
+          const allSchemas = [];
+          const allBusinessRules = [];
+          const allSecuritySchemes = [];
+          let latestDate = null;
+
+          await Promise.all(currentManifest.filter(spec => !spec.error).map(async (spec) => {
+            const response = await fetch(\`./data-dictionary-\${spec.key}.json\`);
+            if (!response.ok) return;
+            const specData = await response.json();
+            const specLabel = \`\${spec.title} v\${spec.version}\`;
+
+            if (specData.generatedAt) {
+              const d = new Date(specData.generatedAt);
+              if (!latestDate || d > latestDate) latestDate = d;
+            }
+
+            specData.fieldInstances.forEach(row => {
+              allFieldInstances.push({...row, specification: specLabel});
+            });
+            specData.endpoints.forEach(row => {
+              allEndpoints.push({...row, specification: specLabel});
+            });
+            specData.schemas.forEach(row => {
+              allSchemas.push({...row, specification: specLabel});
+            });
+            (specData.businessRules || []).forEach(row => {
+              allBusinessRules.push({...row, specification: specLabel});
+            });
+            (specData.securitySchemes || []).forEach(row => {
+              allSecuritySchemes.push({...row, specification: specLabel});
+            });
+          }));
+
+          data = {
+            fieldInstances: allFieldInstances,
+            endpoints: allEndpoints,
+            schemas: allSchemas,
+            businessRules: allBusinessRules,
+            securitySchemes: allSecuritySchemes,
+            generatedAt: latestDate ? latestDate.toISOString() : null
+          };
+
+          // Hide download button for "All"
+          const downloadBtn = document.querySelector('.download-btn');
+          if (downloadBtn) downloadBtn.style.display = 'none';
+        } else {
+          isAllSpecs = false;
+          const response = await fetch(\`./data-dictionary-\${key}.json\`);
+          if (!response.ok) throw new Error('Failed to load data dictionary');
+          data = await response.json();
+          data.businessRules = data.businessRules || [];
+          data.securitySchemes = data.securitySchemes || [];
+
+          // Show download button
+          const downloadBtn = document.querySelector('.download-btn');
+          if (downloadBtn) {
+            downloadBtn.style.display = '';
+            downloadBtn.href = \`./data-dictionary-\${key}.xlsx\`;
+          }
+        }
+        updateDownloadLinks();
+
+        // Update header
+        document.getElementById('generated-at').textContent =
+          data.generatedAt ? \`Generated: \${new Date(data.generatedAt).toLocaleString()}\` : '—';
+
+        // Repopulate status filter
+        const statusSelect = document.getElementById('filter-status');
+        statusSelect.innerHTML = '<option value="">All Status Codes</option>';
+        const statusCodes = [...new Set(data.fieldInstances
+          .map(f => f.httpStatus)
+          .filter(s => s))];
+        statusCodes.sort().forEach(code => {
+          const option = document.createElement('option');
+          option.value = code;
+          option.textContent = code;
+          statusSelect.appendChild(option);
+        });
+
+        // Repopulate variant filter
+        const variantSelect = document.getElementById('filter-variant');
+        variantSelect.innerHTML = '<option value="">All Variants</option><option value="__none__">Not in a variant</option>';
+        const variants = [...new Set(data.fieldInstances
+          .map(f => f.variant)
+          .filter(v => v))];
+        variants.sort().forEach(variant => {
+          const option = document.createElement('option');
+          option.value = variant;
+          option.textContent = variant;
+          variantSelect.appendChild(option);
+        });
+
+        renderTable();
+      } catch (error) {
+        document.getElementById('data-table').innerHTML =
+          \`<div class="error">Error: \${error.message}</div>\`;
+      }
+    }
+
+    function renderTable() {
+      if (!data) return;
+
+      let tableData, columns;
+      switch (currentTab) {
+        case 'fields':
+          tableData = data.fieldInstances;
+          columns = isAllSpecs ? [specColumn, ...fieldColumns] : fieldColumns;
+          break;
+        case 'endpoints':
+          tableData = data.endpoints;
+          columns = isAllSpecs ? [specColumn, ...endpointColumns] : endpointColumns;
+          break;
+        case 'schemas':
+          tableData = data.schemas;
+          columns = isAllSpecs ? [specColumn, ...schemaColumns] : schemaColumns;
+          break;
+        case 'rules':
+          tableData = data.businessRules;
+          columns = isAllSpecs ? [specColumn, ...businessRuleColumns] : businessRuleColumns;
+          break;
+        case 'security':
+          tableData = data.securitySchemes;
+          columns = isAllSpecs ? [specColumn, ...securityColumns] : securityColumns;
+          break;
+        case 'glossary':
+          tableData = glossaryRows();
+          columns = glossaryColumns;
+          break;
+      }
+
+      if (table) {
+        table.destroy();
+      }
+
+      table = new Tabulator("#data-table", {
+        data: tableData,
+        columns: columns,
+        layout: "fitDataFill",
+        pagination: "local",
+        paginationSize: 50,
+        paginationSizeSelector: [25, 50, 100, 200],
+        movableColumns: true,
+        resizableColumns: true,
+        resizableColumnGuide: true,
+        columnDefaults: {
+          resizable: true,
+          minWidth: 60
+        },
+        initialSort: currentTab === 'fields' ?
+          [{column: "path", dir: "asc"}, {column: "method", dir: "asc"}] :
+          currentTab === 'glossary' ? [{column: "term", dir: "asc"}] : [{column: "name", dir: "asc"}],
+        placeholder: "No data available"
+      });
+
+      updateStats();
+    }
+
+    function updateStats() {
+      if (!data || !table) return;
+
+      const filtered = table.getDataCount("active");
+      const total = table.getDataCount();
+
+      let label;
+      switch (currentTab) {
+        case 'fields':
+          label = 'field instances';
+          break;
+        case 'endpoints':
+          label = 'endpoints';
+          break;
+        case 'schemas':
+          label = 'schemas';
+          break;
+        case 'rules':
+          label = 'business rules';
+          break;
+        case 'security':
+          label = 'security schemes';
+          break;
+        case 'glossary':
+          label = 'glossary terms';
+          break;
+      }
+
+      document.getElementById('stats').textContent =
+        \`Showing \${filtered} of \${total} \${label}\`;
+    }
+
+    function applyFilters() {
+      if (!table || currentTab !== 'fields') return;
+
+      const filters = [];
+
+      const search = document.getElementById('search').value;
+      const method = document.getElementById('filter-method').value;
+      const location = document.getElementById('filter-location').value;
+      const status = document.getElementById('filter-status').value;
+      const variant = document.getElementById('filter-variant').value;
+
+      if (method) filters.push({field: "method", type: "=", value: method});
+      if (location) filters.push({field: "location", type: "=", value: location});
+      if (status) filters.push({field: "httpStatus", type: "=", value: status});
+      if (variant) filters.push({field: "variant", type: "=", value: variant === '__none__' ? '' : variant});
+
+      table.setFilter(filters);
+
+      if (search) {
+        table.addFilter(function(data) {
+          const searchLower = search.toLowerCase();
+          return Object.values(data).some(v =>
+            typeof v !== 'object' && String(v).toLowerCase().includes(searchLower)
+          );
+        });
+      }
+
+      updateStats();
+    }
+
+    // Event listeners
+    document.getElementById('search').addEventListener('input', applyFilters);
+    document.getElementById('filter-method').addEventListener('change', applyFilters);
+    document.getElementById('filter-location').addEventListener('change', applyFilters);
+    document.getElementById('filter-status').addEventListener('change', applyFilters);
+    document.getElementById('filter-variant').addEventListener('change', applyFilters);
+
+    document.querySelectorAll('.tab-btn').forEach(btn => {
+      btn.addEventListener('click', function() {
+        document.querySelectorAll('.tab-btn').forEach(b => b.classList.remove('active'));
+        this.classList.add('active');
+        currentTab = this.dataset.tab;
+        updateDownloadLinks();
+        renderTable();
+      });
+    });
+
+    // Load manifest and data on page load
+    loadManifest();
+
+    // Working Groups dropdown
+    const toggle = document.querySelector('.nav-dropdown-toggle');
+    const menu = document.querySelector('.nav-dropdown-menu');
+    if (toggle && menu) {
+      toggle.addEventListener('click', function(e) {
+        e.preventDefault();
+        menu.classList.toggle('open');
+      });
+      document.addEventListener('click', function(e) {
+        if (!e.target.closest('.nav-dropdown')) {
+          menu.classList.remove('open');
+        }
+      });
+    }
+  </script>
+</body>
+</html>`;
+
+  fs.writeFileSync(outputPath, html);
+  return outputPath;
+}
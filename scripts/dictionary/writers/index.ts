@@ -0,0 +1,21 @@
+import { writeJson } from './json';
+import { writeXlsx } from './xlsx';
+import { writeCsv, writeTsv } from './delimited';
+import { writeMarkdown } from './markdown';
+import type { SpecWriter } from '../types';
+
+export { writeJson, writeXlsx, writeCsv, writeTsv, writeMarkdown };
+export { COMBINED_KEY, writeCombinedDelimited, type DelimitedFormat } from './delimited';
+export { writeHtml } from './html';
+export { GLOSSARY_FILE, writeGlossary } from './glossary';
+export { manifestPath, mergeManifest, writeManifest, type ManifestEntry } from './manifest';
+export { BUILD_REPORT_FILE, writeBuildReport, type SpecReport } from './report';
+
+// Per-spec writers keyed by their --format name, in the order they run
+export const specWriters: Record<string, SpecWriter> = {
+  json: writeJson,
+  xlsx: writeXlsx,
+  csv: writeCsv,
+  tsv: writeTsv,
+  md: writeMarkdown
+};
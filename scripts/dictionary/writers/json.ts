@@ -0,0 +1,15 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DictionaryModel, WriterContext } from '../types';
+
+export function writeJson(model: DictionaryModel, context: WriterContext): string[] {
+  const jsonPath = path.join(context.outDir, `data-dictionary-${context.key}.json`);
+  const jsonOutput = {
+    generatedAt: context.generatedAt,
+    source: context.source,
+    ...model
+  };
+
+  fs.writeFileSync(jsonPath, JSON.stringify(jsonOutput, null, 2));
+  return [jsonPath];
+}
@@ -0,0 +1,25 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// `error` is set when the spec failed to build; the viewer lists it as unavailable
+export type ManifestEntry = { key: string; title: string; version: string; sha256: string; error?: string };
+
+export function manifestPath(outDir: string): string {
+  return path.join(outDir, 'data-dictionary-manifest.json');
+}
+
+// Replaces entries for the regenerated specs and keeps the rest of the site's manifest
+export function mergeManifest(manifestFile: string, entries: ManifestEntry[], removedKeys: string[] = []): ManifestEntry[] {
+  const existing: ManifestEntry[] = fs.existsSync(manifestFile)
+    ? JSON.parse(fs.readFileSync(manifestFile, 'utf8'))
+    : [];
+  const byKey = new Map(existing.map(entry => [entry.key, entry]));
+  for (const entry of entries) byKey.set(entry.key, entry);
+  for (const key of removedKeys) byKey.delete(key);
+  return [...byKey.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export function writeManifest(outDir: string, entries: ManifestEntry[]): string {
+  fs.writeFileSync(manifestPath(outDir), JSON.stringify(entries, null, 2));
+  return manifestPath(outDir);
+}
@@ -0,0 +1,83 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildDictionary } from '../build';
+import { writeMarkdown } from './markdown';
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'markdown-test-'));
+after(() => fs.rmSync(outDir, { recursive: true, force: true }));
+
+async function render(): Promise<string> {
+  const model = await buildDictionary({
+    openapi: '3.1.0',
+    info: { title: 'Notes', version: '1.0.0' },
+    paths: {
+      '/v1/notes': {
+        post: {
+          operationId: 'createNote',
+          summary: 'Create a note',
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    text: { type: 'string', description: 'Plain | piped <b>text</b>\nsecond line', pattern: '^[a|b]+$' }
+                  }
+                }
+              }
+            }
+          },
+          responses: { '204': { description: 'Created' } }
+        }
+      }
+    }
+  });
+  const [file] = writeMarkdown(model, { outDir, key: 'notes', generatedAt: '2024-01-01T00:00:00.000Z', source: 'notes.yaml', sha256: '' });
+  return fs.readFileSync(file, 'utf8');
+}
+
+describe('writeMarkdown', () => {
+  test('links the endpoint index to each operation section', async () => {
+    const markdown = await render();
+
+    assert.ok(markdown.includes('| POST | `/v1/notes` | [createNote](#createnote) | operation | Create a note |'));
+    assert.ok(markdown.includes('### createNote'));
+    assert.ok(markdown.includes('#### Request body — `application/json`'));
+  });
+
+  test('escapes table cells so pipes, HTML and line breaks stay in one cell', async () => {
+    const markdown = await render();
+    const row = markdown.split('\n').find(line => line.startsWith('| `text` |'))!;
+
+    assert.ok(row.includes('Plain \\| piped \\<b\\>text\\</b\\><br>second line'));
+    assert.ok(row.includes('pattern=^\\[a\\|b\\]+$'));
+  });
+
+  test('numbers operation anchors that collide with the fixed headings', async () => {
+    const model = await buildDictionary({
+      openapi: '3.1.0',
+      info: { title: 'Index', version: '1.0.0' },
+      paths: {
+        '/v1/endpoints': {
+          get: {
+            operationId: 'endpoints',
+            responses: {
+              '200': {
+                description: 'OK',
+                headers: { 'X-Total-Count': { schema: { type: 'integer' } } }
+              }
+            }
+          }
+        }
+      }
+    });
+    const [file] = writeMarkdown(model, { outDir, key: 'index', generatedAt: '2024-01-01T00:00:00.000Z', source: 'index.yaml', sha256: '' });
+    const markdown = fs.readFileSync(file, 'utf8');
+
+    assert.ok(markdown.includes('[endpoints](#endpoints-1)'));
+    assert.ok(markdown.includes('| `X-Total-Count` | header | integer |'));
+  });
+});
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DictionaryModel, EndpointSummary, FieldInstance, WriterContext } from '../types';
+
+// Backslash-escapes everything that would otherwise render as Markdown/HTML inside a table cell
+function escapeText(value: string): string {
+  return value
+    .replace(/[\\`*_[\]<>|~&]/g, match => `\\${match}`)
+    .replace(/\r?\n/g, '<br>');
+}
+
+function code(value: string): string {
+  if (!value) return '';
+  const fence = value.includes('`') ? '``' : '`';
+  return `${fence}${value.replace(/\|/g, '\\|')}${fence}`;
+}
+
+function table(headers: string[], rows: string[][]): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(cells => `| ${cells.join(' | ')} |`)
+  ];
+}
+
+// GitHub-style heading anchors, numbered on repeats; every heading must pass through in document order
+type Slugger = (heading: string) => string;
+
+function createSlugger(): Slugger {
+  const seen = new Map<string, number>();
+  return heading => {
+    const base = heading.toLowerCase().replace(/[^\w\- ]/g, '').replace(/ /g, '-');
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+}
+
+function typeLabel(field: FieldInstance): string {
+  const itemType = field.itemType ? `<${field.itemType}>` : '';
+  const format = field.format ? ` (${field.format})` : '';
+  return escapeText(`${field.type}${itemType}${format}`);
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return groups;
+}
+
+function parameterTable(fields: FieldInstance[]): string[] {
+  return table(
+    ['Name', 'In', 'Type', 'Required', 'Description', 'Constraints'],
+    fields.map(field => [
+      code(field.fieldPath),
+      field.location.replace(/_param$/, '').replace(/^response_/, ''),
+      typeLabel(field),
+      field.required,
+      escapeText(field.description),
+      escapeText(field.constraints)
+    ])
+  );
+}
+
+// Variant column only appears when the body actually has oneOf/anyOf variants
+function fieldTable(fields: FieldInstance[]): string[] {
+  const hasVariants = fields.some(field => field.variant);
+  const headers = ['Field', 'Type', 'Required', 'Nullable', 'Description', 'Constraints', 'Example'];
+  return table(
+    hasVariants ? ['Variant', ...headers] : headers,
+    fields.map(field => {
+      const cells = [
+        code(field.fieldPath) || '*(root)*',
+        typeLabel(field),
+        field.required,
+        field.nullable,
+        escapeText(field.description),
+        escapeText(field.constraints),
+        code(field.example)
+      ];
+      return hasVariants ? [escapeText(field.variant), ...cells] : cells;
+    })
+  );
+}
+
+function heading(level: number, text: string, slug: Slugger): string {
+  slug(text);
+  return `${'#'.repeat(level)} ${text}`;
+}
+
+function bodySections(title: string, fields: FieldInstance[], slug: Slugger): string[] {
+  return [...groupBy(fields, field => field.mediaType)].flatMap(([mediaType, group]) => [
+    heading(4, `${title}${mediaType ? ` — ${code(mediaType)}` : ''}`, slug),
+    '',
+    ...fieldTable(group),
+    ''
+  ]);
+}
+
+function operationSection(endpoint: EndpointSummary, fields: FieldInstance[], slug: Slugger): { anchor: string; lines: string[] } {
+  const parameters = fields.filter(field => field.location.endsWith('_param'));
+  const requestBody = fields.filter(field => field.location === 'request_body' || field.location === 'callback_body');
+  const responses = fields.filter(field => field.location === 'response_body' || field.location === 'response_header');
+
+  const summary = endpoint.summary ? ` — ${escapeText(endpoint.summary)}` : '';
+  const title = escapeText(endpoint.operationId);
+  const anchor = slug(title);
+  const lines = [`### ${title}`, '', `${code(`${endpoint.method} ${endpoint.path}`)}${summary}`, ''];
+  if (endpoint.description) lines.push(escapeText(endpoint.description), '');
+
+  if (parameters.length > 0) lines.push(heading(4, 'Parameters', slug), '', ...parameterTable(parameters), '');
+  lines.push(...bodySections('Request body', requestBody, slug));
+
+  for (const [status, group] of groupBy(responses, field => field.httpStatus)) {
+    const headers = group.filter(field => field.location === 'response_header');
+    if (headers.length > 0) lines.push(heading(4, `Response ${status} headers`, slug), '', ...parameterTable(headers), '');
+    lines.push(...bodySections(`Response ${status}`, group.filter(field => field.location === 'response_body'), slug));
+  }
+  return { anchor, lines };
+}
+
+// Renders a spec as GitHub-flavoured Markdown so dictionary changes diff cleanly in pull requests
+export function writeMarkdown(model: DictionaryModel, context: WriterContext): string[] {
+  const { title, version, description } = model.apiInfo;
+  const slug = createSlugger();
+  const operationKey = (item: { method: string; path: string; operationId: string }) =>
+    `${item.method} ${item.path} ${item.operationId}`;
+  const fieldsByOperation = groupBy(model.fieldInstances, operationKey);
+
+  const lines = [
+    heading(1, `${escapeText(title)} v${escapeText(version)} — Data Dictionary`, slug),
+    '',
+    `Source: ${code(context.source)} · Generated: ${context.generatedAt}`,
+    ''
+  ];
+  if (description) lines.push(escapeText(description), '');
+
+  // Anchors follow document order, so the headings above the operations are counted first
+  const endpointsHeading = heading(2, 'Endpoints', slug);
+  const operationsHeading = heading(2, 'Operations', slug);
+  const sections: string[] = [];
+  const indexRows = model.endpoints.map(endpoint => {
+    const { anchor, lines: section } = operationSection(endpoint, fieldsByOperation.get(operationKey(endpoint)) ?? [], slug);
+    sections.push(...section);
+    return [
+      endpoint.method,
+      code(endpoint.path),
+      `[${escapeText(endpoint.operationId)}](#${anchor})`,
+      endpoint.kind,
+      escapeText(endpoint.summary)
+    ];
+  });
+
+  lines.push(endpointsHeading, '', ...table(['Method', 'Path', 'Operation', 'Kind', 'Summary'], indexRows), '');
+  lines.push(operationsHeading, '', ...sections);
+
+  lines.push(heading(2, 'Component schemas', slug), '');
+  lines.push(...table(
+    ['Schema', 'Type', 'Properties', 'Required', 'Description'],
+    model.schemas.map(schema => [
+      code(schema.name),
+      escapeText(schema.type),
+      String(schema.propertyCount),
+      escapeText(schema.required),
+      escapeText(schema.description)
+    ])
+  ));
+
+  const markdownPath = path.join(context.outDir, `data-dictionary-${context.key}.md`);
+  fs.writeFileSync(markdownPath, `${lines.join('\n')}\n`);
+  return [markdownPath];
+}
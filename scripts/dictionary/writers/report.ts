@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Outcome of building one spec, as recorded in build-report.json
+export interface SpecReport {
+  key: string;
+  source: string;
+  status: 'ok' | 'failed';
+  durationMs: number;
+  fieldInstances: number;
+  endpoints: number;
+  warnings: string[];
+  errors: string[];
+}
+
+export const BUILD_REPORT_FILE = 'build-report.json';
+
+// Timings make the report differ on every run, so --check leaves it out
+export function writeBuildReport(outDir: string, specs: SpecReport[]): string {
+  const report = {
+    summary: {
+      specs: specs.length,
+      ok: specs.filter(s => s.status === 'ok').length,
+      failed: specs.filter(s => s.status === 'failed').length,
+      warnings: specs.reduce((count, s) => count + s.warnings.length, 0)
+    },
+    specs
+  };
+
+  const reportPath = path.join(outDir, BUILD_REPORT_FILE);
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+  return reportPath;
+}
@@ -0,0 +1,87 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import * as CFB from 'cfb';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildDictionary } from '../build';
+import { writeXlsx } from './xlsx';
+import type { WriterContext } from '../types';
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'xlsx-test-'));
+after(() => fs.rmSync(outDir, { recursive: true, force: true }));
+
+const context: WriterContext = { outDir, key: 'things', generatedAt: '2024-01-01T00:00:00.000Z', source: 'things.yaml', sha256: '' };
+
+const model = await buildDictionary({
+  openapi: '3.1.0',
+  info: { title: 'Things', version: '1.0.0' },
+  paths: {
+    '/v1/things/{thingId}': {
+      get: {
+        operationId: 'getThing',
+        parameters: [{ name: 'thingId', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': {
+            description: 'OK',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Thing' } } }
+          }
+        }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      Thing: { type: 'object', required: ['thingId'], properties: { thingId: { type: 'string' }, label: { type: 'string' } } }
+    }
+  }
+});
+
+const [xlsxPath] = writeXlsx(model, context);
+const workbook = XLSX.read(fs.readFileSync(xlsxPath));
+
+function header(sheetName: string, row = 0): unknown[] {
+  return XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1 })[row];
+}
+
+describe('writeXlsx', () => {
+  test('writes the overview, one sheet per table and one per operation', () => {
+    assert.deepEqual(workbook.SheetNames, [
+      'Overview',
+      'Field Instances',
+      'Endpoints',
+      'Schemas',
+      'Business Rules',
+      'Security',
+      'Examples',
+      'Variants',
+      'getThing'
+    ]);
+  });
+
+  test('titles columns like the viewer', () => {
+    assert.ok(header('Field Instances').includes('Operation ID'));
+    assert.ok(header('Field Instances').includes('Required'));
+    assert.ok(header('Schemas').includes('Required Fields'));
+  });
+
+  test('writes Yes/No flags as boolean cells', () => {
+    const sheet = workbook.Sheets['Field Instances'];
+    const column = header('Field Instances').indexOf('Required');
+    const flags = [1, 2, 3].map(r => sheet[XLSX.utils.encode_cell({ r, c: column })]);
+
+    assert.deepEqual(flags.map(cell => cell.t), ['b', 'b', 'b']);
+    assert.deepEqual(flags.map(cell => cell.v).sort(), [false, true, true]);
+  });
+
+  test('freezes the header rows of table and operation sheets', () => {
+    const zip = CFB.read(fs.readFileSync(xlsxPath), { type: 'buffer' });
+    const sheetXml = (index: number) =>
+      Buffer.from(CFB.find(zip, `/xl/worksheets/sheet${index + 1}.xml`)!.content as Uint8Array).toString('utf8');
+
+    assert.doesNotMatch(sheetXml(workbook.SheetNames.indexOf('Overview')), /<pane /);
+    assert.match(sheetXml(workbook.SheetNames.indexOf('Field Instances')), /<pane ySplit="1" topLeftCell="A2"[^>]*state="frozen"/);
+    assert.match(sheetXml(workbook.SheetNames.indexOf('getThing')), /<pane ySplit="3" topLeftCell="A4"[^>]*state="frozen"/);
+  });
+});
@@ -0,0 +1,208 @@
+import * as XLSX from 'xlsx';
+import * as CFB from 'cfb';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildVariantMatrix } from '../flatten';
+import type { DictionaryModel, EndpointSummary, FieldInstance, WriterContext } from '../types';
+
+type ColumnTitles = Record<string, string>;
+
+// Headers that differ from the camelCase → Title Case default, matching the HTML viewer
+const COLUMN_TITLES: ColumnTitles = {
+  operationId: 'Operation ID',
+  httpStatus: 'HTTP Status',
+  discriminatorValue: 'Discriminator',
+  parameterCount: 'Param Count',
+  responseCodesAndMediaTypes: 'Response Codes',
+  responseLinks: 'Links',
+  ruleName: 'Rule',
+  pii: 'PII',
+  openIdConnectUrl: 'OpenID Connect URL'
+};
+
+// Yes/No columns written as boolean cells so they filter as TRUE/FALSE
+const FLAG_COLUMNS = new Set(['required', 'nullable', 'deprecated', 'readOnly', 'writeOnly', 'explode', 'allowReserved', 'global']);
+
+// Columns already shown in an operation sheet's heading
+const OPERATION_COLUMNS = new Set(['operationId', 'method', 'path', 'tags', 'summary']);
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+const MAX_SHEET_NAME = 31;
+
+function columnTitle(key: string, titles: ColumnTitles): string {
+  if (titles[key]) return titles[key];
+  // Variant columns in the Variants sheet are schema names and stay as-is
+  if (!/^[a-z]/.test(key)) return key;
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+}
+
+function cellValue(key: string, value: unknown): unknown {
+  if (FLAG_COLUMNS.has(key) && (value === 'Yes' || value === 'No')) return value === 'Yes';
+  return value === '' ? undefined : value;
+}
+
+function columnWidths(aoa: unknown[][]): XLSX.ColInfo[] {
+  const widths: number[] = [];
+  for (const row of aoa) {
+    row.forEach((value, c) => {
+      const length = value === undefined || value === null ? 0 : String(value).length;
+      widths[c] = Math.max(widths[c] ?? MIN_COLUMN_WIDTH, Math.min(length + 2, MAX_COLUMN_WIDTH));
+    });
+  }
+  return [...widths].map(wch => ({ wch: wch ?? MIN_COLUMN_WIDTH }));
+}
+
+// Writes rows as a table whose header sits on `headerRow` (0-based), with an autofilter and column widths
+function addTable(sheet: XLSX.WorkSheet, rows: object[], headerRow: number, titles: ColumnTitles = COLUMN_TITLES): string[] {
+  const records = rows.map(row => new Map(Object.entries(row)));
+  const keys = [...new Set(records.flatMap(record => [...record.keys()]))];
+  const aoa = [
+    keys.map(key => columnTitle(key, titles)),
+    ...records.map(record => keys.map(key => cellValue(key, record.get(key))))
+  ];
+  XLSX.utils.sheet_add_aoa(sheet, aoa, { origin: { r: headerRow, c: 0 } });
+
+  if (keys.length > 0) {
+    const range = { s: { r: headerRow, c: 0 }, e: { r: headerRow + rows.length, c: keys.length - 1 } };
+    sheet['!autofilter'] = { ref: XLSX.utils.encode_range(range) };
+    sheet['!cols'] = columnWidths(aoa);
+  }
+  return keys;
+}
+
+function internalLink(sheetName: string): XLSX.Hyperlink {
+  return { Target: `#'${sheetName.replace(/'/g, "''")}'!A1` };
+}
+
+// Excel sheet names are unique case-insensitively, at most 31 characters and exclude []:*?/\
+function createSheetNamer(reserved: string[]): (name: string) => string {
+  const used = new Set(reserved.map(name => name.toLowerCase()));
+  return name => {
+    const base = name.replace(/[[\]:*?/\\]/g, '').slice(0, MAX_SHEET_NAME) || 'Operation';
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      candidate = `${base.slice(0, MAX_SHEET_NAME - suffix.length)}${suffix}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+}
+
+function coverSheet(model: DictionaryModel, context: WriterContext, sheetNames: string[]): XLSX.WorkSheet {
+  const { title, version, description } = model.apiInfo;
+  const sheet = XLSX.utils.aoa_to_sheet([
+    [title],
+    [],
+    ['Version', version],
+    ['Description', description ?? ''],
+    ['Source', context.source],
+    ['Spec SHA-256', context.sha256],
+    ['Generated', context.generatedAt],
+    [],
+    ['Sheets'],
+    ...sheetNames.map(name => [name])
+  ]);
+
+  sheetNames.forEach((name, i) => {
+    sheet[XLSX.utils.encode_cell({ r: 9 + i, c: 0 })].l = internalLink(name);
+  });
+  sheet['!cols'] = [{ wch: 20 }, { wch: 80 }];
+  return sheet;
+}
+
+function operationSheet(endpoint: EndpointSummary, fields: FieldInstance[]): XLSX.WorkSheet {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ['← Endpoints', `${endpoint.method} ${endpoint.path}`, endpoint.summary]
+  ]);
+  sheet.A1.l = internalLink('Endpoints');
+
+  addTable(
+    sheet,
+    fields.map(({ constraintDetails: _details, ...row }) =>
+      Object.fromEntries(Object.entries(row).filter(([key]) => !OPERATION_COLUMNS.has(key)))
+    ),
+    2
+  );
+  return sheet;
+}
+
+/**
+ * SheetJS Community Edition does not write frozen panes, so they are added to
+ * each sheet's <sheetView> after the workbook has been serialized.
+ */
+function freezeHeaderRows(workbook: XLSX.WorkBook, frozenRows: Map<string, number>): Buffer {
+  const zip = CFB.read(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }), { type: 'buffer' });
+
+  workbook.SheetNames.forEach((name, i) => {
+    const rows = frozenRows.get(name);
+    const entry = CFB.find(zip, `/xl/worksheets/sheet${i + 1}.xml`);
+    if (!rows || !entry) return;
+
+    const pane = `<pane ySplit="${rows}" topLeftCell="A${rows + 1}" activePane="bottomLeft" state="frozen"/>`;
+    const xml = Buffer.from(entry.content as Uint8Array).toString('utf8')
+      .replace('<sheetView workbookViewId="0"/>', `<sheetView workbookViewId="0">${pane}<selection pane="bottomLeft"/></sheetView>`);
+    entry.content = Buffer.from(xml, 'utf8');
+  });
+
+  return CFB.write(zip, { type: 'buffer', fileType: 'zip', compression: true }) as Buffer;
+}
+
+export function writeXlsx(model: DictionaryModel, context: WriterContext): string[] {
+  const workbook = XLSX.utils.book_new();
+  workbook.Props = { Title: model.apiInfo.title, CreatedDate: new Date(context.generatedAt) };
+
+  // A schema's `required` lists property names, unlike the Yes/No flag of a field
+  const tables: Array<[string, object[], ColumnTitles?]> = [
+    ['Field Instances', model.fieldInstances.map(({ constraintDetails: _details, ...row }) => row)],
+    ['Endpoints', model.endpoints],
+    ['Schemas', model.schemas, { ...COLUMN_TITLES, required: 'Required Fields' }],
+    ['Business Rules', model.businessRules],
+    ['Security', model.securitySchemes],
+    ['Examples', model.examples],
+    ['Variants', buildVariantMatrix(model.fieldInstances)]
+  ];
+  const frozenRows = new Map(tables.map(([name]) => [name, 1]));
+
+  const operationKey = (item: { method: string; path: string; operationId: string }) =>
+    `${item.method} ${item.path} ${item.operationId}`;
+  const fieldsByOperation = new Map<string, FieldInstance[]>();
+  for (const field of model.fieldInstances) {
+    const key = operationKey(field);
+    fieldsByOperation.set(key, [...(fieldsByOperation.get(key) ?? []), field]);
+  }
+
+  const sheetName = createSheetNamer(['Overview', ...tables.map(([name]) => name)]);
+  const operationSheets = model.endpoints.map(endpoint => ({ endpoint, name: sheetName(endpoint.operationId) }));
+
+  XLSX.utils.book_append_sheet(workbook, coverSheet(model, context, tables.map(([name]) => name)), 'Overview');
+
+  for (const [name, rows, titles] of tables) {
+    const sheet: XLSX.WorkSheet = {};
+    const keys = addTable(sheet, rows, 0, titles);
+
+    // Each Endpoints row links to the sheet holding that operation's fields
+    if (name === 'Endpoints') {
+      const column = keys.indexOf('operationId');
+      operationSheets.forEach(({ name: target }, i) => {
+        const cell = sheet[XLSX.utils.encode_cell({ r: i + 1, c: column })];
+        if (cell) cell.l = internalLink(target);
+      });
+    }
+    XLSX.utils.book_append_sheet(workbook, sheet, name);
+  }
+
+  for (const { endpoint, name } of operationSheets) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      operationSheet(endpoint, fieldsByOperation.get(operationKey(endpoint)) ?? []),
+      name
+    );
+    frozenRows.set(name, 3);
+  }
+
+  const xlsxPath = path.join(context.outDir, `data-dictionary-${context.key}.xlsx`);
+  fs.writeFileSync(xlsxPath, freezeHeaderRows(workbook, frozenRows));
+  return [xlsxPath];
+}
@@ -0,0 +1,215 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+
+const cli = fileURLToPath(new URL('./generate-dictionary.ts', import.meta.url));
+
+function run(...args: string[]) {
+  return spawnSync(process.execPath, ['--import', 'tsx', cli, ...args], {
+    encoding: 'utf8',
+    timeout: 60_000,
+    env: { ...process.env, SOURCE_DATE_EPOCH: '1704067200' }
+  });
+}
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generate-dictionary-test-'));
+after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+// JSON is valid YAML, and a spec directory only lists .yaml/.yml files
+function writeSpec(dir: string, name: string, properties: Record<string, unknown>): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const specPath = path.join(dir, `${name}.yaml`);
+  fs.writeFileSync(
+    specPath,
+    JSON.stringify({
+      openapi: '3.1.0',
+      info: { title: name, version: '1.0.0' },
+      paths: {
+        '/v1/things': {
+          get: {
+            operationId: 'getThing',
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { type: 'object', properties } } }
+              }
+            }
+          }
+        }
+      }
+    })
+  );
+  return specPath;
+}
+
+// A spec whose $ref points nowhere, so it fails to build
+function writeBrokenSpec(dir: string, name: string): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, `${name}.yaml`),
+    "openapi: 3.1.0\ninfo: { title: Broken, version: '1' }\npaths:\n  /x:\n    get:\n      responses:\n        '200': { $ref: '#/components/responses/Missing' }\n"
+  );
+}
+
+describe('generate-dictionary usage errors', () => {
+  for (const args of [['--format', 'bogus'], ['--nope'], ['--port', '99999'], ['lint', '--config', 'missing.json']]) {
+    test(`${args.join(' ')} prints the problem and the usage and exits 2`, () => {
+      const result = run(...args);
+
+      assert.equal(result.status, 2);
+      assert.match(result.stderr, /^Usage: generate-dictionary/m);
+      assert.doesNotMatch(result.stderr, /\n\s+at /);
+    });
+  }
+});
+
+describe('generate-dictionary --watch', () => {
+  test('exits 1 when the live-reload port is taken', async () => {
+    const specDir = path.join(tmpDir, 'watch-port');
+    writeSpec(specDir, 'things', { name: { type: 'string' } });
+    const blocker = http.createServer();
+    await new Promise<void>(resolve => blocker.listen(0, resolve));
+    const { port } = blocker.address() as AddressInfo;
+
+    try {
+      const child = spawn(
+        process.execPath,
+        ['--import', 'tsx', cli, specDir, '--out', path.join(specDir, 'out'), '--format', 'json', '--watch', '--port', `${port}`],
+        { stdio: ['ignore', 'ignore', 'pipe'], timeout: 60_000 }
+      );
+      let stderr = '';
+      child.stderr.on('data', chunk => (stderr += chunk));
+      const status = await new Promise(resolve => child.on('close', resolve));
+
+      assert.equal(status, 1);
+      assert.match(stderr, new RegExp(`port ${port} is already in use`));
+    } finally {
+      blocker.close();
+    }
+  });
+
+  test('regenerates only the spec that changed', { timeout: 60_000 }, async () => {
+    const specDir = path.join(tmpDir, 'watch-incremental');
+    const outDir = path.join(specDir, 'out');
+    writeSpec(specDir, 'changed', { name: { type: 'string' } });
+    writeSpec(specDir, 'untouched', { name: { type: 'string' } });
+
+    const probe = http.createServer();
+    await new Promise<void>(resolve => probe.listen(0, resolve));
+    const { port } = probe.address() as AddressInfo;
+    await new Promise(resolve => probe.close(resolve));
+
+    const child = spawn(
+      process.execPath,
+      ['--import', 'tsx', cli, specDir, '--out', outDir, '--format', 'json,manifest', '--watch', '--port', `${port}`],
+      { stdio: ['ignore', 'pipe', 'inherit'] }
+    );
+    let stdout = '';
+    const printed = (pattern: RegExp) =>
+      new Promise<void>(resolve => {
+        const check = () => pattern.test(stdout) && resolve();
+        child.stdout.on('data', chunk => {
+          stdout += chunk;
+          check();
+        });
+        check();
+      });
+
+    try {
+      await printed(/Watching /);
+      const untouchedPath = path.join(outDir, 'data-dictionary-untouched.json');
+      const untouchedBefore = fs.statSync(untouchedPath).mtimeMs;
+      stdout = '';
+
+      writeSpec(specDir, 'changed', { name: { type: 'string' }, size: { type: 'integer' } });
+      await printed(/Generated manifest/);
+
+      const changed = JSON.parse(fs.readFileSync(path.join(outDir, 'data-dictionary-changed.json'), 'utf8'));
+      assert.ok(changed.fieldInstances.some((field: { fieldPath: string }) => field.fieldPath === 'size'));
+      assert.equal(fs.statSync(untouchedPath).mtimeMs, untouchedBefore);
+      assert.doesNotMatch(stdout, /untouched/);
+
+      const manifest = JSON.parse(fs.readFileSync(path.join(outDir, 'data-dictionary-manifest.json'), 'utf8'));
+      assert.deepEqual(manifest.map((entry: { key: string }) => entry.key).sort(), ['changed', 'untouched']);
+    } finally {
+      child.kill();
+    }
+  });
+});
+
+describe('generate-dictionary --check', () => {
+  const specDir = path.join(tmpDir, 'check');
+  const outDir = path.join(specDir, 'out');
+  const formats = ['--format', 'json,xlsx,csv,md,manifest'];
+
+  test('writes byte-identical outputs on every run', () => {
+    writeSpec(specDir, 'things', { name: { type: 'string' } });
+    const otherDir = path.join(tmpDir, 'check-again');
+
+    assert.equal(run(specDir, '--out', outDir, ...formats).status, 0);
+    assert.equal(run(specDir, '--out', otherDir, ...formats).status, 0);
+    for (const file of fs.readdirSync(outDir).filter(f => f !== 'build-report.json')) {
+      assert.ok(fs.readFileSync(path.join(outDir, file)).equals(fs.readFileSync(path.join(otherDir, file))), file);
+    }
+  });
+
+  test('passes when the outputs are current and lists them once a spec changes', () => {
+    assert.equal(run(specDir, '--out', outDir, ...formats, '--check').status, 0);
+
+    writeSpec(specDir, 'things', { name: { type: 'string' }, size: { type: 'integer' } });
+    const result = run(specDir, '--out', outDir, ...formats, '--check');
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /out of date[\s\S]*data-dictionary-things\.json/);
+  });
+
+  test('fails on a spec that cannot be built even when nothing is stale', () => {
+    writeBrokenSpec(specDir, 'broken');
+    assert.equal(run(specDir, '--out', outDir, ...formats).status, 1);
+
+    assert.equal(run(specDir, '--out', outDir, ...formats, '--check').status, 1);
+    assert.equal(run(specDir, '--out', outDir, ...formats, '--check', '--fail-on', 'none').status, 0);
+  });
+});
+
+describe('generate-dictionary with a failing spec', () => {
+  const specDir = path.join(tmpDir, 'failing');
+  const outDir = path.join(specDir, 'out');
+  writeSpec(specDir, 'things', { name: { type: 'string' }, size: { type: 'integer' } });
+  writeBrokenSpec(specDir, 'broken');
+  const readOutput = (file: string) => JSON.parse(fs.readFileSync(path.join(outDir, file), 'utf8'));
+
+  test('still publishes the other specs and records the failure in the manifest', () => {
+    const result = run(specDir, '--out', outDir, '--format', 'json,manifest', '--concurrency', '2');
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /1 of 2 specs failed:\n {2}broken: /);
+    assert.ok(fs.existsSync(path.join(outDir, 'data-dictionary-things.json')));
+    assert.ok(!fs.existsSync(path.join(outDir, 'data-dictionary-broken.json')));
+
+    const manifest: Array<{ key: string; error?: string }> = readOutput('data-dictionary-manifest.json');
+    assert.deepEqual(manifest.map(entry => [entry.key, !!entry.error]), [['broken', true], ['things', false]]);
+  });
+
+  test('writes a build report with per-spec counts and errors', () => {
+    const report = readOutput('build-report.json');
+
+    assert.deepEqual(report.summary, { specs: 2, ok: 1, failed: 1, warnings: 0 });
+    const things = report.specs.find((spec: { key: string }) => spec.key === 'things');
+    assert.deepEqual([things.status, things.fieldInstances, things.endpoints], ['ok', 2, 1]);
+    assert.equal(typeof things.durationMs, 'number');
+    const broken = report.specs.find((spec: { key: string }) => spec.key === 'broken');
+    assert.equal(broken.status, 'failed');
+    assert.equal(broken.errors.length, 1);
+  });
+
+  test('exits 0 with --fail-on none', () => {
+    assert.equal(run(specDir, '--out', outDir, '--format', 'json,manifest', '--fail-on', 'none').status, 0);
+  });
+});